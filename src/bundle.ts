@@ -0,0 +1,560 @@
+/**
+ * AuraCore MCP - Project Bundles
+ * Portable JSON/YAML export of a project (or the global context) and import with ID remapping
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+import { v4 as uuidv4 } from 'uuid';
+import { queryAll, queryOne, runAndSave, runExclusive, runInTransaction } from './database';
+import { emitDataChange } from './changes';
+import { nowIso } from './clock';
+import { getDataDir, isInsideDir } from './config';
+import { parseDependsOn } from './scheduler';
+import { ProjectType, ProjectStatus, ContextType, Priority, TaskStatus, TaskType } from './schemas';
+import { Project } from './types';
+
+export const BUNDLE_FORMAT = 'auracore-bundle';
+// Bump when the bundle layout changes; older bundles must stay importable
+// 2: tasks carry their status history
+export const BUNDLE_VERSION = 2;
+
+export type BundleFormat = 'json' | 'yaml';
+export type ImportMode = 'merge' | 'replace';
+
+// ============== BUNDLE SCHEMA ==============
+
+// IDs in a bundle only tie its records together; import assigns new ones
+const BundleProject = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  description: z.string().nullish(),
+  type: ProjectType.nullish(),
+  status: ProjectStatus.nullish(),
+  workspace_path: z.string().nullish(),
+  group_name: z.string().nullish(),
+  created_at: z.string().nullish(),
+  updated_at: z.string().nullish()
+});
+
+const BundleContext = z.object({
+  id: z.string(),
+  type: ContextType,
+  name: z.string().min(1),
+  content: z.string(),
+  group_name: z.string().nullish(),
+  key: z.string().nullish(),
+  category: z.string().nullish(),
+  priority: Priority.nullish(),
+  metadata: z.string().nullish(),
+  created_at: z.string().nullish(),
+  updated_at: z.string().nullish()
+});
+
+const BundleMilestone = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  description: z.string().nullish(),
+  due_date: z.string().nullish(),
+  created_at: z.string().nullish(),
+  updated_at: z.string().nullish()
+});
+
+const BundleStatusChange = z.object({
+  from_status: TaskStatus.nullable(),
+  to_status: TaskStatus,
+  changed_at: z.string()
+});
+
+const BundleTask = z.object({
+  id: z.string(),
+  title: z.string().min(1),
+  description: z.string().nullish(),
+  status: TaskStatus.nullish(),
+  priority: Priority.nullish(),
+  type: TaskType.nullish(),
+  depends_on: z.array(z.string()).default([]),
+  estimated_time: z.string().nullish(),
+  created_at: z.string().nullish(),
+  updated_at: z.string().nullish(),
+  completed_at: z.string().nullish(),
+  archived_at: z.string().nullish(),
+  parent_id: z.string().nullish(),
+  milestone_id: z.string().nullish(),
+  // Missing from version 1 bundles
+  status_history: z.array(BundleStatusChange).optional()
+});
+
+const BundleDecision = z.object({
+  id: z.string(),
+  decision_type: z.string().min(1),
+  input_context: z.string().nullish(),
+  decision: z.string().min(1),
+  confidence: z.number().min(0).max(1).nullish(),
+  reasoning: z.string().nullish(),
+  was_correct: z.boolean().nullish(),
+  outcome_note: z.string().nullish(),
+  outcome_at: z.string().nullish(),
+  relation: z.enum(['supersedes', 'amends']).nullish(),
+  related_decision_id: z.string().nullish(),
+  task_ids: z.array(z.string()).default([]),
+  context_ids: z.array(z.string()).default([]),
+  created_at: z.string().nullish()
+});
+
+const BundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.number().int().positive(),
+  exported_at: z.string().optional(),
+  scope: z.enum(['project', 'global']),
+  project: BundleProject.nullable(),
+  context: z.array(BundleContext).default([]),
+  milestones: z.array(BundleMilestone).default([]),
+  tasks: z.array(BundleTask).default([]),
+  decisions: z.array(BundleDecision).default([])
+});
+
+export type Bundle = z.infer<typeof BundleSchema>;
+
+export interface BundleCounts {
+  context: number;
+  milestones: number;
+  tasks: number;
+  decisions: number;
+}
+
+// ============== EXPORT ==============
+
+// Rows of a scope: one project, or everything with no project (project_id null)
+function scopeFilter(project_id: string | null): { sql: string; params: any[] } {
+  return project_id ? { sql: 'project_id = ?', params: [project_id] } : { sql: 'project_id IS NULL', params: [] };
+}
+
+/**
+ * Snapshot of a project, or of the global context and decisions when
+ * project_id is null. Session memory is not part of a bundle.
+ */
+export function buildBundle(project_id: string | null): Bundle {
+  let project: Bundle['project'] = null;
+  if (project_id) {
+    const row = queryOne<Project>('SELECT * FROM projects WHERE id = ?', [project_id]);
+    if (!row) throw new Error('Project not found');
+    project = BundleProject.parse(row);
+  }
+
+  const scope = scopeFilter(project_id);
+  const context = queryAll<z.input<typeof BundleContext>>(
+    `SELECT id, type, name, content, group_name, key, category, priority, metadata, created_at, updated_at
+     FROM context WHERE ${scope.sql} ORDER BY created_at, id`,
+    scope.params
+  );
+
+  const milestones = project_id
+    ? queryAll<z.input<typeof BundleMilestone>>(
+        `SELECT id, name, description, due_date, created_at, updated_at FROM milestones WHERE project_id = ? ORDER BY created_at, id`,
+        [project_id]
+      )
+    : [];
+
+  const tasks = project_id
+    ? queryAll<Omit<z.input<typeof BundleTask>, 'depends_on' | 'status_history'> & { depends_on: string | null }>(
+        `SELECT id, title, description, status, priority, type, depends_on, estimated_time, created_at, updated_at, completed_at, archived_at,
+                parent_id, milestone_id
+         FROM tasks WHERE project_id = ? ORDER BY created_at, id`,
+        [project_id]
+      ).map(row => ({
+        ...row,
+        depends_on: parseDependsOn(row.depends_on),
+        status_history: queryAll<z.input<typeof BundleStatusChange>>(
+          'SELECT from_status, to_status, changed_at FROM task_status_history WHERE task_id = ? ORDER BY changed_at, rowid',
+          [row.id]
+        )
+      }))
+    : [];
+
+  const decisions = queryAll<Omit<z.input<typeof BundleDecision>, 'was_correct'> & { was_correct: number | null }>(
+    `SELECT id, decision_type, input_context, decision, confidence, reasoning, was_correct, outcome_note, outcome_at,
+            relation, related_decision_id, created_at
+     FROM decision_log WHERE ${scope.sql} ORDER BY created_at, id`,
+    scope.params
+  ).map(row => ({
+    ...row,
+    was_correct: row.was_correct === null ? null : row.was_correct === 1,
+    task_ids: queryAll<{ task_id: string }>('SELECT task_id FROM decision_tasks WHERE decision_id = ?', [row.id]).map(r => r.task_id),
+    context_ids: queryAll<{ context_id: string }>('SELECT context_id FROM decision_context WHERE decision_id = ?', [row.id]).map(r => r.context_id)
+  }));
+
+  return BundleSchema.parse({
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: nowIso(),
+    scope: project_id ? 'project' : 'global',
+    project,
+    context,
+    milestones,
+    tasks,
+    decisions
+  });
+}
+
+export function serializeBundle(bundle: Bundle, format: BundleFormat = 'json'): string {
+  return format === 'yaml' ? YAML.stringify(bundle) : `${JSON.stringify(bundle, null, 2)}\n`;
+}
+
+// Format from a file extension; JSON unless it ends in .yaml/.yml
+export function formatFromPath(filePath: string): BundleFormat {
+  return /\.ya?ml$/i.test(filePath) ? 'yaml' : 'json';
+}
+
+export interface BundleFileOptions {
+  // Read or write any path, relative to the current directory (the CLI)
+  anyPath?: boolean;
+}
+
+/**
+ * Absolute path of a bundle file. Unless options.anyPath is set, the file
+ * must be under the data directory or the workspace_path of project_id (the
+ * MCP tools cannot reach the rest of the disk); relative paths start from the
+ * workspace, else the data directory.
+ */
+function resolveBundlePath(filePath: string, project_id: string | undefined, options: BundleFileOptions): { path?: string; error?: string } {
+  if (options.anyPath) return { path: path.resolve(filePath) };
+
+  const workspace = project_id
+    ? queryOne<Project>('SELECT workspace_path FROM projects WHERE id = ?', [project_id])?.workspace_path
+    : null;
+  const roots = workspace ? [path.resolve(workspace), getDataDir()] : [getDataDir()];
+  const target = path.resolve(roots[0], filePath);
+  if (!roots.some(root => isInsideDir(root, target))) {
+    return { error: `Bundle files must be inside ${roots.join(' or ')}: ${filePath}` };
+  }
+  return { path: target };
+}
+
+export function exportBundle(input: { project_id?: string; format?: BundleFormat; path?: string }, options: BundleFileOptions = {}): {
+  success: boolean;
+  content?: string;
+  path?: string;
+  counts?: BundleCounts;
+  error?: string;
+} {
+  try {
+    const bundle = buildBundle(input.project_id || null);
+    const format = input.format || (input.path ? formatFromPath(input.path) : 'json');
+    const content = serializeBundle(bundle, format);
+    const counts = {
+      context: bundle.context.length,
+      milestones: bundle.milestones.length,
+      tasks: bundle.tasks.length,
+      decisions: bundle.decisions.length
+    };
+
+    if (input.path) {
+      const { path: target, error } = resolveBundlePath(input.path, input.project_id, options);
+      if (!target) {
+        return { success: false, error };
+      }
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, content);
+      return { success: true, path: target, counts };
+    }
+    return { success: true, content, counts };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+// ============== IMPORT ==============
+
+/**
+ * Parse and validate bundle text. JSON and YAML are both accepted (JSON is
+ * tried first when the text looks like an object).
+ */
+export function parseBundle(text: string): Bundle {
+  const trimmed = text.trim();
+  let raw: unknown;
+  try {
+    raw = trimmed.startsWith('{') ? JSON.parse(trimmed) : YAML.parse(trimmed);
+  } catch (error) {
+    throw new Error(`Bundle is neither valid JSON nor YAML: ${String(error)}`);
+  }
+
+  const version = (raw as { version?: unknown } | null)?.version;
+  if (typeof version === 'number' && version > BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${version} is newer than this server supports (${BUNDLE_VERSION})`);
+  }
+
+  const parsed = BundleSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid bundle: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+export interface ImportReport {
+  project_id: string | null;
+  project_created: boolean;
+  mode: ImportMode;
+  created: BundleCounts;
+  // Records matched by name to one already in the target (merge mode); references to them are redirected
+  skipped: { context: string[]; milestones: string[]; tasks: string[]; decisions: string[] };
+  replaced: BundleCounts;
+}
+
+/**
+ * Import a bundle. Every record gets a new ID and references between records
+ * (task dependencies and parents, milestones, decision links and lineage)
+ * are remapped.
+ *
+ * - merge: records whose name already exists in the target (context type +
+ *   name, milestone name, task title, decision type + text) are skipped and
+ *   the existing row
+ *   stands in for them.
+ * - replace: the target's context, tasks and decisions are deleted first.
+ *
+ * A project bundle goes into project_id, else into the project with the same
+ * name, else into a new project. A global bundle goes to global scope unless
+ * project_id is given. Runs in one transaction under the cross-process lock
+ * and is written at once; if anything fails, the target is left untouched.
+ */
+export function importBundle(bundle: Bundle, options: { mode?: ImportMode; project_id?: string } = {}): ImportReport {
+  const mode = options.mode || 'merge';
+
+  return runExclusive(() => {
+    // One transaction: a failure part way leaves the target as it was, replaced rows included
+    const { report, removedContext, addedContext } = runInTransaction(() => {
+      const now = nowIso();
+      let project_id: string | null = null;
+      let project_created = false;
+
+      if (options.project_id) {
+        if (!queryOne('SELECT id FROM projects WHERE id = ?', [options.project_id])) {
+          throw new Error('Project not found');
+        }
+        project_id = options.project_id;
+      } else if (bundle.scope === 'project' && bundle.project) {
+        const source = bundle.project;
+        const existing = queryOne<{ id: string }>('SELECT id FROM projects WHERE name = ? ORDER BY created_at LIMIT 1', [source.name]);
+        if (existing) {
+          project_id = existing.id;
+        } else {
+          project_id = uuidv4();
+          project_created = true;
+          runAndSave(
+            `INSERT INTO projects (id, name, description, type, status, workspace_path, group_name, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [project_id, source.name, source.description ?? null, source.type || 'feature', source.status || 'active',
+              source.workspace_path ?? null, source.group_name ?? null, source.created_at || now, source.updated_at || now]
+          );
+        }
+      }
+
+      const scope = scopeFilter(project_id);
+      const replaced: BundleCounts = { context: 0, milestones: 0, tasks: 0, decisions: 0 };
+      const removedContext: string[] = [];
+      if (mode === 'replace') {
+        removedContext.push(...queryAll<{ id: string }>(`SELECT id FROM context WHERE ${scope.sql}`, scope.params).map(r => r.id));
+        replaced.context = removedContext.length;
+        replaced.decisions = countRows('decision_log', scope);
+        runAndSave(`DELETE FROM context WHERE ${scope.sql}`, scope.params);
+        runAndSave(`DELETE FROM decision_log WHERE ${scope.sql}`, scope.params);
+        if (project_id) {
+          replaced.tasks = countRows('tasks', scope);
+          replaced.milestones = countRows('milestones', scope);
+          runAndSave('DELETE FROM tasks WHERE project_id = ?', [project_id]);
+          runAndSave('DELETE FROM milestones WHERE project_id = ?', [project_id]);
+        }
+      }
+
+      const created: BundleCounts = { context: 0, milestones: 0, tasks: 0, decisions: 0 };
+      const skipped: ImportReport['skipped'] = { context: [], milestones: [], tasks: [], decisions: [] };
+
+      // Context entries
+      const contextIds = new Map<string, string>();
+      const addedContext: string[] = [];
+      for (const entry of bundle.context) {
+        // Group entries only exist outside projects
+        const group_name = project_id ? null : entry.group_name ?? null;
+        const duplicate = mode === 'merge'
+          ? queryOne<{ id: string }>(
+              `SELECT id FROM context WHERE ${scope.sql} AND group_name IS ? AND type = ? AND name = ?`,
+              [...scope.params, group_name, entry.type, entry.name]
+            )
+          : undefined;
+        if (duplicate) {
+          contextIds.set(entry.id, duplicate.id);
+          skipped.context.push(entry.name);
+          continue;
+        }
+        const id = uuidv4();
+        contextIds.set(entry.id, id);
+        addedContext.push(id);
+        runAndSave(
+          `INSERT INTO context (id, project_id, group_name, key, type, name, content, category, priority, metadata, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [id, project_id, group_name, entry.key ?? null, entry.type, entry.name, entry.content, entry.category ?? null,
+            entry.priority || 'medium', entry.metadata ?? null, entry.created_at || now, entry.updated_at || now]
+        );
+        created.context++;
+      }
+
+      // Milestones
+      const milestoneIds = new Map<string, string>();
+      if (project_id) {
+        for (const milestone of bundle.milestones) {
+          const duplicate = mode === 'merge'
+            ? queryOne<{ id: string }>('SELECT id FROM milestones WHERE project_id = ? AND name = ?', [project_id, milestone.name])
+            : undefined;
+          if (duplicate) {
+            milestoneIds.set(milestone.id, duplicate.id);
+            skipped.milestones.push(milestone.name);
+            continue;
+          }
+          const id = uuidv4();
+          milestoneIds.set(milestone.id, id);
+          runAndSave(
+            `INSERT INTO milestones (id, project_id, name, description, due_date, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [id, project_id, milestone.name, milestone.description ?? null, milestone.due_date ?? null,
+              milestone.created_at || now, milestone.updated_at || now]
+          );
+          created.milestones++;
+        }
+      }
+
+      // Tasks: map every ID first so dependencies can point forward
+      const taskIds = new Map<string, string>();
+      const newTasks = [];
+      if (project_id) {
+        for (const task of bundle.tasks) {
+          const duplicate = mode === 'merge'
+            ? queryOne<{ id: string }>('SELECT id FROM tasks WHERE project_id = ? AND title = ?', [project_id, task.title])
+            : undefined;
+          if (duplicate) {
+            taskIds.set(task.id, duplicate.id);
+            skipped.tasks.push(task.title);
+          } else {
+            taskIds.set(task.id, uuidv4());
+            newTasks.push(task);
+          }
+        }
+      }
+      for (const task of newTasks) {
+        const depends_on = task.depends_on.map(id => taskIds.get(id)).filter((id): id is string => id !== undefined);
+        runAndSave(
+          `INSERT INTO tasks (id, project_id, title, description, status, priority, type, depends_on, estimated_time,
+                              milestone_id, created_at, updated_at, completed_at, archived_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [taskIds.get(task.id), project_id, task.title, task.description ?? null, task.status || 'pending', task.priority || 'medium',
+            task.type ?? null, depends_on.length > 0 ? JSON.stringify(depends_on) : null, task.estimated_time ?? null,
+            task.milestone_id ? milestoneIds.get(task.milestone_id) ?? null : null,
+            task.created_at || now, task.updated_at || now, task.completed_at ?? null, task.archived_at ?? null]
+        );
+        created.tasks++;
+      }
+      // Status history as exported; version 1 bundles have none, so record what the rows tell, as migration 9 does
+      for (const task of newTasks) {
+        const id = taskIds.get(task.id);
+        const history: [string | null, string, string][] = task.status_history
+          ? task.status_history.map(change => [change.from_status, change.to_status, change.changed_at])
+          : [[null, 'pending', task.created_at || now]];
+        if (!task.status_history && task.status === 'completed' && task.completed_at) {
+          history.push(['pending', 'completed', task.completed_at]);
+        }
+        for (const [from, to, at] of history) {
+          runAndSave(
+            'INSERT INTO task_status_history (id, task_id, from_status, to_status, changed_at) VALUES (?, ?, ?, ?, ?)',
+            [uuidv4(), id, from, to, at]
+          );
+        }
+      }
+      // Parents once every task exists, as the foreign key needs the parent row
+      for (const task of newTasks) {
+        const parent = task.parent_id ? taskIds.get(task.parent_id) : undefined;
+        if (parent) runAndSave('UPDATE tasks SET parent_id = ? WHERE id = ?', [parent, taskIds.get(task.id)]);
+      }
+
+      // Decisions, oldest first so the decision a later one revises already exists
+      const decisionIds = new Map<string, string>();
+      const decisions = [...bundle.decisions].sort((a, b) => (a.created_at || '') < (b.created_at || '') ? -1 : 1);
+      for (const decision of decisions) {
+        const duplicate = mode === 'merge'
+          ? queryOne<{ id: string }>(
+              `SELECT id FROM decision_log WHERE ${scope.sql} AND decision_type = ? AND decision = ?`,
+              [...scope.params, decision.decision_type, decision.decision]
+            )
+          : undefined;
+        if (duplicate) {
+          decisionIds.set(decision.id, duplicate.id);
+          skipped.decisions.push(decision.decision);
+          continue;
+        }
+
+        const id = uuidv4();
+        decisionIds.set(decision.id, id);
+        const related = decision.related_decision_id ? decisionIds.get(decision.related_decision_id) : undefined;
+        runAndSave(
+          `INSERT INTO decision_log (id, project_id, decision_type, input_context, decision, confidence, reasoning,
+                                     was_correct, outcome_note, outcome_at, relation, related_decision_id, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [id, project_id, decision.decision_type, decision.input_context ?? null, decision.decision, decision.confidence ?? null,
+            decision.reasoning ?? null, decision.was_correct == null ? null : decision.was_correct ? 1 : 0,
+            decision.outcome_note ?? null, decision.outcome_at ?? null, related ? decision.relation ?? null : null,
+            related ?? null, decision.created_at || now]
+        );
+        for (const task_id of decision.task_ids) {
+          const mapped = taskIds.get(task_id);
+          if (mapped) runAndSave('INSERT OR IGNORE INTO decision_tasks (decision_id, task_id) VALUES (?, ?)', [id, mapped]);
+        }
+        for (const context_id of decision.context_ids) {
+          const mapped = contextIds.get(context_id);
+          if (mapped) runAndSave('INSERT OR IGNORE INTO decision_context (decision_id, context_id) VALUES (?, ?)', [id, mapped]);
+        }
+        created.decisions++;
+      }
+
+      const report: ImportReport = { project_id, project_created, mode, created, skipped, replaced };
+      return { report, removedContext, addedContext };
+    });
+
+    if (report.project_id) {
+      emitDataChange({ entity: 'project', action: report.project_created ? 'created' : 'updated', id: report.project_id });
+    }
+    for (const id of removedContext) emitDataChange({ entity: 'context', action: 'deleted', id, project_id: report.project_id });
+    for (const id of addedContext) emitDataChange({ entity: 'context', action: 'created', id, project_id: report.project_id });
+    return report;
+  });
+}
+
+function countRows(table: string, scope: { sql: string; params: any[] }): number {
+  return queryOne<{ count: number }>(`SELECT COUNT(*) as count FROM ${table} WHERE ${scope.sql}`, scope.params)?.count || 0;
+}
+
+export function importBundleFrom(
+  input: { path?: string; content?: string; mode?: ImportMode; project_id?: string },
+  options: BundleFileOptions = {}
+): {
+  success: boolean;
+  report?: ImportReport;
+  error?: string;
+} {
+  try {
+    let text = input.content;
+    if (input.path) {
+      const { path: source, error } = resolveBundlePath(input.path, input.project_id, options);
+      if (!source) {
+        return { success: false, error };
+      }
+      text = fs.readFileSync(source, 'utf8');
+    }
+    if (text === undefined) {
+      return { success: false, error: 'Provide path or content' };
+    }
+    const report = importBundle(parseBundle(text), { mode: input.mode, project_id: input.project_id });
+    return { success: true, report };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * AuraCore MCP - Decision Calibration
+ * Compares the confidence stated when logging decisions with their outcomes
+ */
+
+export interface CalibrationSample {
+  confidence: number | null;
+  was_correct: boolean;
+}
+
+export interface CalibrationBin {
+  min_confidence: number;
+  max_confidence: number;
+  count: number;
+  mean_confidence: number;
+  accuracy: number;
+}
+
+export interface CalibrationReport {
+  decision_type: string;
+  decisions: number;                           // Logged, with or without outcome
+  with_outcome: number;
+  correct: number;
+  accuracy: number | null;
+  // The fields below only count decisions with both a confidence and an outcome
+  scored: number;
+  mean_confidence: number | null;
+  calibration_gap: number | null;              // mean_confidence - accuracy; > 0 means overconfident
+  brier_score: number | null;                  // Mean squared error of confidence vs outcome; 0 is perfect
+  expected_calibration_error: number | null;   // Per-bin |accuracy - confidence|, weighted by bin size
+  verdict: 'overconfident' | 'underconfident' | 'well_calibrated' | 'insufficient_data';
+  bins: CalibrationBin[];                      // Non-empty confidence bins only
+}
+
+// Below this many scored decisions a verdict would be noise
+const MIN_SCORED_FOR_VERDICT = 5;
+// A gap within this margin counts as well calibrated
+const CALIBRATED_MARGIN = 0.05;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+export function buildCalibrationReport(
+  decision_type: string,
+  decisions: number,
+  samples: CalibrationSample[],
+  binCount: number = 5
+): CalibrationReport {
+  const correct = samples.filter(s => s.was_correct).length;
+  const scored = samples.filter((s): s is { confidence: number; was_correct: boolean } => s.confidence !== null);
+  const outcome = (s: CalibrationSample) => s.was_correct ? 1 : 0;
+
+  const bins: CalibrationBin[] = [];
+  let weightedError = 0;
+  for (let i = 0; i < binCount; i++) {
+    const min = i / binCount;
+    const max = (i + 1) / binCount;
+    // The last bin includes confidence 1.0
+    const inBin = scored.filter(s => s.confidence >= min && (s.confidence < max || (i === binCount - 1 && s.confidence <= max)));
+    if (inBin.length === 0) continue;
+
+    const binConfidence = mean(inBin.map(s => s.confidence))!;
+    const binAccuracy = mean(inBin.map(outcome))!;
+    weightedError += (inBin.length / scored.length) * Math.abs(binAccuracy - binConfidence);
+    bins.push({
+      min_confidence: round(min),
+      max_confidence: round(max),
+      count: inBin.length,
+      mean_confidence: round(binConfidence),
+      accuracy: round(binAccuracy)
+    });
+  }
+
+  const meanConfidence = mean(scored.map(s => s.confidence));
+  const scoredAccuracy = mean(scored.map(outcome));
+  const gap = meanConfidence !== null && scoredAccuracy !== null ? meanConfidence - scoredAccuracy : null;
+  const brier = mean(scored.map(s => (s.confidence - outcome(s)) ** 2));
+
+  let verdict: CalibrationReport['verdict'] = 'insufficient_data';
+  if (gap !== null && scored.length >= MIN_SCORED_FOR_VERDICT) {
+    verdict = gap > CALIBRATED_MARGIN ? 'overconfident' : gap < -CALIBRATED_MARGIN ? 'underconfident' : 'well_calibrated';
+  }
+
+  return {
+    decision_type,
+    decisions,
+    with_outcome: samples.length,
+    correct,
+    accuracy: samples.length > 0 ? round(correct / samples.length) : null,
+    scored: scored.length,
+    mean_confidence: meanConfidence === null ? null : round(meanConfidence),
+    calibration_gap: gap === null ? null : round(gap),
+    brier_score: brier === null ? null : round(brier),
+    expected_calibration_error: scored.length > 0 ? round(weightedError) : null,
+    verdict,
+    bins
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * AuraCore MCP - Data Change Events
+ * Tools report row changes here; the server turns them into MCP notifications
+ */
+
+export interface DataChange {
+  entity: 'project' | 'context' | 'task' | 'decision' | 'workspace';
+  action: 'created' | 'updated' | 'deleted';
+  id: string;
+  project_id?: string | null;
+}
+
+export type DataChangeListener = (change: DataChange) => void;
+
+const listeners = new Set<DataChangeListener>();
+
+// Register a listener; returns a function that unregisters it
+export function onDataChange(listener: DataChangeListener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function emitDataChange(change: DataChange): void {
+  for (const listener of listeners) {
+    try {
+      listener(change);
+    } catch (error) {
+      // A failing listener must never fail the write that triggered it
+      console.error('Data change listener failed:', error);
+    }
+  }
+}
@@ -0,0 +1,431 @@
+/**
+ * AuraCore MCP - Command Line
+ * Subcommands that work on the database and exit instead of starting the server
+ */
+import { initDatabase, flushDatabase } from './database';
+import { getCliOption } from './config';
+import { exportBundle, importBundleFrom, BundleFormat, ImportMode } from './bundle';
+import { callTool, ToolResult } from './registry';
+import { FieldError } from './schemas';
+import { Project, Task, TaskNode, MilestoneNode, TaskProgress, ContextSearchResult, DecisionLog, MemoryValue } from './types';
+import { formatProgress } from './hierarchy';
+import { MemoryEntry } from './tools';
+
+const USAGE = `Usage:
+  auracore-mcp                                   Start the MCP server on stdio
+  auracore-mcp projects [--status <status>] [--limit <n>] [--offset <n>]
+                                                 List projects
+  auracore-mcp project <project_id>              Show a project, its milestones and task tree with progress
+  auracore-mcp tasks <project_id> [--status <status>] [--priority <priority>] [--type <type>] [--all]
+                                                 List a project's tasks (--all includes archived ones)
+  auracore-mcp task add <project_id> <title> [--priority <priority>] [--type <type>]
+                    [--description <text>] [--depends-on <id,id>] [--estimate <time>]
+                    [--parent <task_id>] [--milestone <id>]
+                                                 Create a task (a subtask with --parent)
+  auracore-mcp task done <task_id> [--with-subtasks]
+                                                 Mark a task completed (and its open subtasks)
+  auracore-mcp context [<search>] [--project <id>] [--group <name>] [--type <type>] [--category <name>]
+                       [--limit <n>] [--shadowed]
+                                                 Search or list context entries (merged project, group
+                                                 and global layers; --shadowed adds overridden entries)
+  auracore-mcp recall <key> [--session <id>]     Print a session memory value
+  auracore-mcp memory [--session <id>] [--prefix <prefix>]
+                                                 List session memory keys and values
+  auracore-mcp decisions [--project <id>] [--type <type>] [--outcome correct|incorrect|unknown] [--limit <n>]
+                                                 Show the decision history
+  auracore-mcp export [--project <id>] [--format json|yaml] [--out <file>]
+                                                 Export a project (default: the global context) as a bundle
+  auracore-mcp import <file> [--mode merge|replace] [--project <id>]
+                                                 Import a bundle
+  auracore-mcp help, --help, -h                  Show this help
+
+Add --json to any listing command to print the raw tool result instead of a table.
+Database selection (any command): --data-dir <dir>, --workspace <name>, --repo <path>`;
+
+export const CLI_COMMANDS = [
+  'projects', 'project', 'tasks', 'task', 'context', 'recall', 'memory', 'decisions',
+  'export', 'import', 'help'
+];
+
+const HELP_FLAGS = ['--help', '-h'];
+
+// Options that take a value, so their value is not mistaken for a positional argument or a flag
+const VALUE_OPTIONS = [
+  '--project', '--format', '--out', '--mode', '--data-dir', '--workspace', '--repo',
+  '--status', '--priority', '--type', '--limit', '--offset', '--description', '--depends-on', '--estimate',
+  '--category', '--session', '--prefix', '--outcome', '--parent', '--milestone', '--group',
+  '--port', '--token', '--allowed-origins'
+];
+
+// --help or -h anywhere on the command line shows the usage instead of running anything,
+// unless it is the value of an option (task add ... --description -h)
+export function wantsHelp(argv: string[]): boolean {
+  for (let i = 0; i < argv.length; i++) {
+    if (VALUE_OPTIONS.includes(argv[i])) {
+      i++;
+    } else if (HELP_FLAGS.includes(argv[i])) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * The subcommand, the first argument after any global options
+ * (`auracore-mcp --data-dir x projects`), and the rest of the arguments,
+ * those options included.
+ */
+export function splitCommand(argv: string[]): { command?: string; args: string[] } {
+  let i = 0;
+  while (i < argv.length && argv[i].startsWith('-')) {
+    i += VALUE_OPTIONS.includes(argv[i]) ? 2 : 1;
+  }
+  return { command: argv[i], args: [...argv.slice(0, i), ...argv.slice(i + 1)] };
+}
+
+function positionals(args: string[]): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (VALUE_OPTIONS.includes(args[i])) {
+      i++;
+    } else if (!args[i].startsWith('--')) {
+      result.push(args[i]);
+    }
+  }
+  return result;
+}
+
+function oneOf<T extends string>(flag: string, value: string | undefined, allowed: readonly T[]): T | undefined {
+  if (value === undefined) return undefined;
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new Error(`${flag} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * Run a subcommand (argv without node and the script path). Returns the
+ * process exit code.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const { command, args } = splitCommand(argv);
+
+  if (command === 'help' || wantsHelp(argv)) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  try {
+    await initDatabase();
+
+    switch (command) {
+      case 'export': {
+        const result = exportBundle({
+          project_id: getCliOption('--project', args),
+          format: oneOf<BundleFormat>('--format', getCliOption('--format', args), ['json', 'yaml']),
+          path: getCliOption('--out', args)
+        }, { anyPath: true });
+        if (!result.success) return fail(result.error);
+
+        const { context, tasks, decisions } = result.counts!;
+        if (result.path) {
+          console.error(`Exported ${context} context entries, ${tasks} tasks and ${decisions} decisions to ${result.path}`);
+        } else {
+          process.stdout.write(result.content!);
+        }
+        break;
+      }
+
+      case 'import': {
+        const [file] = positionals(args);
+        if (!file) throw new Error('import needs a bundle file');
+
+        const result = importBundleFrom({
+          path: file,
+          mode: oneOf<ImportMode>('--mode', getCliOption('--mode', args), ['merge', 'replace']),
+          project_id: getCliOption('--project', args)
+        }, { anyPath: true });
+        if (!result.success) return fail(result.error);
+        console.log(JSON.stringify(result.report, null, 2));
+        break;
+      }
+
+      default: {
+        const run = command ? DATA_COMMANDS[command] : undefined;
+        if (!run) {
+          console.error(`Unknown command: ${command}\n\n${USAGE}`);
+          return 2;
+        }
+        const code = await run(args, positionals(args));
+        if (code !== 0) return code;
+      }
+    }
+  } catch (error) {
+    return fail(String(error));
+  }
+
+  return flushDatabase() ? 0 : 1;
+}
+
+// Tool errors already read "Error: ..."
+function fail(message = 'Unknown error', fieldErrors: FieldError[] = []): number {
+  console.error(message.startsWith('Error') ? message : `Error: ${message}`);
+  for (const { field, message: detail } of fieldErrors) {
+    console.error(`  ${field}: ${detail}`);
+  }
+  return 1;
+}
+
+// ============== DATA COMMANDS ==============
+// Each goes through the same tool (and argument validation) as an MCP client
+
+type DataCommand = (args: string[], positional: string[]) => Promise<number>;
+
+/**
+ * Call a tool and print its result: raw JSON with --json, otherwise through
+ * print. Returns the exit code.
+ */
+async function runTool(name: string, toolArgs: Record<string, unknown>, args: string[], print: (result: ToolResult) => void): Promise<number> {
+  const result = await callTool(name, toolArgs);
+  if (!result.success) {
+    return fail(result.error, result.field_errors as FieldError[] | undefined);
+  }
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    print(result);
+    if (typeof result.next_offset === 'number') {
+      console.log(`\nMore results: add --offset ${result.next_offset}`);
+    }
+  }
+  return 0;
+}
+
+function required(value: string | undefined, what: string): string {
+  if (!value) throw new Error(`Missing ${what}\n\n${USAGE}`);
+  return value;
+}
+
+const DATA_COMMANDS: Record<string, DataCommand> = {
+  projects: (args) => runTool('auracore_list_projects', {
+    status: getCliOption('--status', args),
+    limit: getCliOption('--limit', args),
+    offset: getCliOption('--offset', args)
+  }, args, result => {
+    printTable(result.projects as Project[], [
+      { header: 'ID', value: p => p.id },
+      { header: 'NAME', value: p => p.name, width: 40 },
+      { header: 'TYPE', value: p => p.type },
+      { header: 'STATUS', value: p => p.status },
+      { header: 'UPDATED', value: p => formatDate(p.updated_at) }
+    ]);
+  }),
+
+  project: (args, [project_id]) => runTool('auracore_get_project', {
+    project_id: required(project_id, 'project ID')
+  }, args, result => {
+    const project = result.project as Project;
+    printFields([
+      ['ID', project.id],
+      ['Name', project.name],
+      ['Description', project.description],
+      ['Type', project.type],
+      ['Status', project.status],
+      ['Workspace', project.workspace_path],
+      ['Group', project.group_name],
+      ['Context', String(result.context_count ?? 0)],
+      ['Progress', formatProgress(result.progress as TaskProgress)],
+      ['Created', formatDate(project.created_at)],
+      ['Updated', formatDate(project.updated_at)]
+    ]);
+
+    const milestones = result.milestones as MilestoneNode[];
+    for (const milestone of milestones) {
+      const due = milestone.due_date ? `, due ${formatDate(milestone.due_date)}` : '';
+      console.log(`\n${milestone.name} (${formatProgress(milestone.progress)}${due})`);
+      printTaskTree(milestone.tasks);
+    }
+    const unassigned = result.tasks as TaskNode[];
+    if (milestones.length === 0 || unassigned.length > 0) {
+      console.log(milestones.length > 0 ? '\nOther tasks' : '');
+      printTaskTree(unassigned);
+    }
+  }),
+
+  tasks: (args, [project_id]) => runTool('auracore_list_tasks', {
+    project_id: required(project_id, 'project ID'),
+    status: getCliOption('--status', args),
+    priority: getCliOption('--priority', args),
+    type: getCliOption('--type', args),
+    include_archived: args.includes('--all'),
+    limit: getCliOption('--limit', args),
+    offset: getCliOption('--offset', args)
+  }, args, result => printTasks(result.tasks as Task[])),
+
+  task: (args, [action, ...rest]) => {
+    if (action === 'add') {
+      const [project_id, ...title] = rest;
+      const dependsOn = getCliOption('--depends-on', args);
+      return runTool('auracore_create_task', {
+        project_id: required(project_id, 'project ID'),
+        title: required(title.join(' '), 'task title'),
+        description: getCliOption('--description', args),
+        priority: getCliOption('--priority', args),
+        type: getCliOption('--type', args),
+        depends_on: dependsOn ? dependsOn.split(',').map(id => id.trim()).filter(Boolean) : undefined,
+        estimated_time: getCliOption('--estimate', args),
+        parent_id: getCliOption('--parent', args),
+        milestone_id: getCliOption('--milestone', args)
+      }, args, result => {
+        const task = result.task as Task;
+        console.log(`Created task ${task.id}: ${task.title}`);
+      });
+    }
+    if (action === 'done') {
+      return runTool('auracore_update_task', {
+        task_id: required(rest[0], 'task ID'),
+        status: 'completed',
+        complete_subtasks: args.includes('--with-subtasks')
+      }, args, result => {
+        const task = result.task as Task;
+        const subtasks = (result.completed_subtasks as string[] | undefined)?.length;
+        console.log(`Completed task ${task.id}: ${task.title}${subtasks ? ` (and ${subtasks} subtask(s))` : ''}`);
+      });
+    }
+    throw new Error(`task needs an action: add or done\n\n${USAGE}`);
+  },
+
+  context: (args, search) => runTool('auracore_query_context', {
+    search: search.length > 0 ? search.join(' ') : undefined,
+    project_id: getCliOption('--project', args),
+    group_name: getCliOption('--group', args),
+    include_shadowed: args.includes('--shadowed'),
+    type: getCliOption('--type', args),
+    category: getCliOption('--category', args),
+    limit: getCliOption('--limit', args),
+    offset: getCliOption('--offset', args)
+  }, args, result => {
+    printTable(result.results as ContextSearchResult[], [
+      { header: 'ID', value: c => c.id },
+      { header: 'TYPE', value: c => c.type },
+      { header: 'NAME', value: c => c.name, width: 32 },
+      { header: 'PRIORITY', value: c => c.priority },
+      { header: 'SCOPE', value: c => (c.scope === 'group' ? `group ${c.group_name}` : c.scope) + (c.shadowed_by ? ' (overridden)' : '') },
+      { header: 'CONTENT', value: c => c.snippet ?? c.content, width: 60 }
+    ]);
+  }),
+
+  // Prints the bare value so it can be captured in shell scripts
+  recall: (args, [key]) => runTool('auracore_recall', {
+    key: required(key, 'memory key'),
+    session_id: getCliOption('--session', args)
+  }, args, result => {
+    console.log(formatValue(result.value as MemoryValue, true));
+  }),
+
+  memory: (args) => runTool('auracore_list_memory', {
+    session_id: getCliOption('--session', args),
+    prefix: getCliOption('--prefix', args),
+    include_values: true,
+    limit: getCliOption('--limit', args),
+    offset: getCliOption('--offset', args)
+  }, args, result => {
+    printTable(result.entries as MemoryEntry[], [
+      { header: 'KEY', value: m => m.key, width: 40 },
+      { header: 'VERSION', value: m => String(m.version) },
+      { header: 'EXPIRES', value: m => m.expires_at ? formatDate(m.expires_at) : '' },
+      { header: 'VALUE', value: m => formatValue(m.value as MemoryValue), width: 60 }
+    ]);
+  }),
+
+  decisions: (args) => runTool('auracore_get_decisions', {
+    project_id: getCliOption('--project', args),
+    decision_type: getCliOption('--type', args),
+    outcome: getCliOption('--outcome', args),
+    limit: getCliOption('--limit', args),
+    offset: getCliOption('--offset', args)
+  }, args, result => {
+    printTable(result.decisions as DecisionLog[], [
+      { header: 'ID', value: d => d.id },
+      { header: 'TYPE', value: d => d.decision_type },
+      { header: 'DECISION', value: d => d.decision, width: 60 },
+      { header: 'CONF', value: d => d.confidence == null ? '' : d.confidence.toFixed(2) },
+      { header: 'OUTCOME', value: d => d.was_correct == null ? '' : d.was_correct ? 'correct' : 'incorrect' },
+      { header: 'DATE', value: d => formatDate(d.created_at) }
+    ]);
+  })
+};
+
+// ============== OUTPUT ==============
+
+interface Column<T> {
+  header: string;
+  value: (row: T) => string;
+  width?: number;     // Longer cells are cut with an ellipsis
+}
+
+function printTable<T>(rows: T[], columns: Column<T>[]): void {
+  if (rows.length === 0) {
+    console.log('(none)');
+    return;
+  }
+
+  const cells = rows.map(row => columns.map(column => fit(column.value(row), column.width)));
+  const widths = columns.map((column, i) => Math.max(column.header.length, ...cells.map(line => line[i].length)));
+  const line = (values: string[]) => values.map((v, i) => i === values.length - 1 ? v : v.padEnd(widths[i])).join('  ');
+
+  console.log(line(columns.map(column => column.header)));
+  console.log(line(widths.map(width => '-'.repeat(width))));
+  for (const values of cells) console.log(line(values));
+}
+
+function printTasks(tasks: Task[]): void {
+  printTable(tasks, [
+    { header: 'ID', value: t => t.id },
+    { header: 'TITLE', value: t => t.title, width: 48 },
+    { header: 'STATUS', value: t => t.status },
+    { header: 'PRIORITY', value: t => t.priority },
+    { header: 'TYPE', value: t => t.type ?? '' }
+  ]);
+}
+
+// Subtasks indented under their parent, with the parent's rolled-up progress
+function printTaskTree(nodes: TaskNode[]): void {
+  const rows: { node: TaskNode; depth: number }[] = [];
+  const visit = (node: TaskNode, depth: number) => {
+    rows.push({ node, depth });
+    node.subtasks.forEach(child => visit(child, depth + 1));
+  };
+  nodes.forEach(node => visit(node, 0));
+
+  printTable(rows, [
+    { header: 'ID', value: r => r.node.id },
+    { header: 'TITLE', value: r => `${'  '.repeat(r.depth)}${fit(r.node.title, 48 - 2 * r.depth)}` },
+    { header: 'STATUS', value: r => r.node.status },
+    { header: 'PRIORITY', value: r => r.node.priority },
+    { header: 'PROGRESS', value: r => r.node.subtasks.length > 0 ? `${r.node.progress.percent_complete}%` : '' }
+  ]);
+}
+
+function printFields(fields: [string, string | null | undefined][]): void {
+  const width = Math.max(...fields.map(([label]) => label.length));
+  for (const [label, value] of fields) {
+    if (value) console.log(`${`${label}:`.padEnd(width + 1)}  ${value}`);
+  }
+}
+
+// One line per cell: line breaks folded, long values cut (leading indentation kept)
+function fit(value: string, width?: number): string {
+  const flat = value.replace(/\s*[\r\n\t]+\s*/g, ' ').trimEnd();
+  return width && flat.length > width ? `${flat.slice(0, width - 1)}…` : flat;
+}
+
+function formatValue(value: MemoryValue, pretty = false): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, pretty ? 2 : undefined);
+}
+
+// ISO timestamps without the milliseconds and zone, for tables
+function formatDate(value: string | null | undefined): string {
+  return value ? value.replace('T', ' ').replace(/(\.\d+)?Z$/, '') : '';
+}
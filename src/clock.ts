@@ -0,0 +1,28 @@
+/**
+ * AuraCore MCP - Clock
+ * Single source of "now" for time-dependent logic, replaceable in tests
+ */
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = { now: () => new Date() };
+
+let clock: Clock = systemClock;
+
+export function now(): Date {
+  return clock.now();
+}
+
+// Current time as stored in the database: ISO 8601 in UTC, with milliseconds
+export function nowIso(): string {
+  return clock.now().toISOString();
+}
+
+// Replace the clock (tests); returns a function that restores the previous one
+export function setClock(replacement: Clock): () => void {
+  const previous = clock;
+  clock = replacement;
+  return () => { clock = previous; };
+}
@@ -0,0 +1,125 @@
+/**
+ * AuraCore MCP - Configuration
+ * Where databases live: data directory, named workspaces and per-repo stores
+ */
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+
+export const DEFAULT_WORKSPACE = 'default';
+// Directory holding a per-repo store, next to the project's files
+export const REPO_DIR_NAME = '.auracore';
+const DB_FILE_NAME = 'auracore.db';
+const WORKSPACE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+export interface WorkspaceTarget {
+  kind: 'named' | 'repo';
+  name: string;
+  db_path: string;
+}
+
+// Value of --flag=value or --flag value in the process arguments
+export function getCliOption(flag: string, argv: string[] = process.argv.slice(2)): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === flag) return argv[i + 1];
+    if (argv[i].startsWith(`${flag}=`)) return argv[i].slice(flag.length + 1);
+  }
+  return undefined;
+}
+
+function expandHome(p: string): string {
+  return p === '~' || p.startsWith(`~${path.sep}`) || p.startsWith('~/')
+    ? path.join(os.homedir(), p.slice(1))
+    : p;
+}
+
+// --data-dir, then AURACORE_DATA_DIR, then ~/.auracore
+export function getDataDir(): string {
+  const configured = getCliOption('--data-dir') || process.env.AURACORE_DATA_DIR;
+  return path.resolve(expandHome(configured || path.join(os.homedir(), REPO_DIR_NAME)));
+}
+
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+// Target with symlinks resolved, as far as it exists
+function realPath(target: string): string {
+  let existing = target;
+  while (!fs.existsSync(existing) && path.dirname(existing) !== existing) existing = path.dirname(existing);
+  return fs.existsSync(existing) ? path.join(fs.realpathSync(existing), path.relative(existing, target)) : target;
+}
+
+/**
+ * Whether the absolute path target stays inside root: no "../" out, and no
+ * symlink leading out once resolved.
+ */
+export function isInsideDir(root: string, target: string): boolean {
+  return isWithin(root, target) && isWithin(realPath(root), realPath(target));
+}
+
+export function isValidWorkspaceName(name: string): boolean {
+  return WORKSPACE_NAME_PATTERN.test(name);
+}
+
+/**
+ * The default workspace keeps the historical <data dir>/auracore.db path;
+ * other workspaces live in <data dir>/workspaces/<name>.db.
+ */
+export function namedWorkspace(name: string): WorkspaceTarget {
+  if (!isValidWorkspaceName(name)) {
+    throw new Error(`Invalid workspace name "${name}": use letters, digits, "-" and "_" (max 64)`);
+  }
+  const dataDir = getDataDir();
+  const db_path = name === DEFAULT_WORKSPACE
+    ? path.join(dataDir, DB_FILE_NAME)
+    : path.join(dataDir, 'workspaces', `${name}.db`);
+  return { kind: 'named', name, db_path };
+}
+
+// Names of the named workspaces that exist on disk (default always included)
+export function listNamedWorkspaces(): string[] {
+  const dir = path.join(getDataDir(), 'workspaces');
+  const names = new Set<string>([DEFAULT_WORKSPACE]);
+  if (fs.existsSync(dir)) {
+    for (const file of fs.readdirSync(dir)) {
+      if (file.endsWith('.db')) names.add(file.slice(0, -3));
+    }
+  }
+  return [...names].sort();
+}
+
+// Closest .auracore/ directory at or above the given path
+export function findRepoStore(startPath: string): string | null {
+  let current = path.resolve(expandHome(startPath));
+  for (;;) {
+    const candidate = path.join(current, REPO_DIR_NAME);
+    if (fs.existsSync(candidate) && fs.statSync(candidate).isDirectory()) return candidate;
+    const parent = path.dirname(current);
+    if (parent === current) return null;
+    current = parent;
+  }
+}
+
+/**
+ * Per-repo store: <repo>/.auracore/auracore.db. Uses the closest existing
+ * .auracore/ directory; with `create`, makes one directly in repoPath.
+ */
+export function repoWorkspace(repoPath: string, create = false): WorkspaceTarget {
+  let storeDir = findRepoStore(repoPath);
+  if (!storeDir) {
+    if (!create) {
+      throw new Error(`No ${REPO_DIR_NAME}/ directory found at or above ${repoPath}`);
+    }
+    storeDir = path.join(path.resolve(expandHome(repoPath)), REPO_DIR_NAME);
+  }
+  return { kind: 'repo', name: path.dirname(storeDir), db_path: path.join(storeDir, DB_FILE_NAME) };
+}
+
+// Workspace to open at startup: --repo, then --workspace / AURACORE_WORKSPACE
+export function resolveStartupWorkspace(): WorkspaceTarget {
+  const repo = getCliOption('--repo') || process.env.AURACORE_REPO;
+  if (repo) return repoWorkspace(repo, true);
+  return namedWorkspace(getCliOption('--workspace') || process.env.AURACORE_WORKSPACE || DEFAULT_WORKSPACE);
+}
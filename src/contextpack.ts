@@ -0,0 +1,245 @@
+/**
+ * AuraCore MCP - Task Context Packs
+ * The context most relevant to one task, ranked and trimmed to a token budget
+ */
+import { queryOne } from './database';
+import { queryContext, getDecisionHistory } from './tools';
+import { TaskRow, toTask } from './scheduler';
+import { scopeOf } from './scopes';
+import { Context, ContextScope, ContextSearchResult, DecisionLog, Project, Task } from './types';
+
+export const DEFAULT_PACK_TOKENS = 2000;
+// Rough size of a token in characters; close enough for budgeting English and code
+const CHARS_PER_TOKEN = 4;
+// An item is cut to fit only if at least this many tokens are left for it
+const MIN_TRIMMED_TOKENS = 40;
+// Candidates read per source before ranking
+const SOURCE_LIMIT = 50;
+
+// Score of each reason an item is picked; an item picked for several reasons adds them up
+const SOURCE_SCORE = {
+  linked_decision: 80,
+  critical: 70,
+  decision_context: 50,
+  type_convention: 45,
+  search: 40             // Scaled by the hit's relevance, relative to the best hit
+};
+const PRIORITY_BONUS: Record<ContextSearchResult['priority'], number> = { critical: 15, high: 10, medium: 5, low: 0 };
+
+// Words in a convention's name or category that tie it to a task type
+const TYPE_TERMS: Record<NonNullable<Task['type']>, string[]> = {
+  setup: ['setup', 'config', 'configuration', 'install', 'build', 'environment', 'tooling'],
+  implementation: ['implementation', 'code', 'coding', 'style', 'naming', 'architecture', 'api'],
+  testing: ['test', 'tests', 'testing', 'qa', 'coverage'],
+  documentation: ['doc', 'docs', 'documentation', 'readme', 'comment', 'comments']
+};
+
+// Too common to say anything about a task (English and French)
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'that', 'this', 'when', 'then', 'than', 'add', 'use', 'make', 'should',
+  'les', 'des', 'une', 'pour', 'dans', 'avec', 'sur', 'par', 'qui', 'que', 'est', 'pas', 'aux', 'ajouter', 'faire'
+]);
+const MAX_SEARCH_TERMS = 12;
+
+export interface PackItem {
+  kind: 'context' | 'decision';
+  id: string;
+  title: string;
+  type: string;                 // Context type, or decision_type
+  priority?: ContextSearchResult['priority'];
+  scope?: ContextScope;
+  content: string;
+  score: number;
+  reasons: string[];
+  tokens: number;
+  truncated: boolean;
+}
+
+export interface ContextPack {
+  task: Pick<Task, 'id' | 'title' | 'type' | 'status' | 'priority'>;
+  max_tokens: number;
+  used_tokens: number;
+  items: PackItem[];
+  omitted: Pick<PackItem, 'kind' | 'id' | 'title' | 'score' | 'reasons' | 'tokens'>[];
+  search_terms: string[];
+  text: string;                 // The items as markdown, ready to paste into a prompt
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Distinct meaningful words of the task's title and description, title first
+export function taskSearchTerms(task: Pick<Task, 'title' | 'description'>): string[] {
+  const words = `${task.title} ${task.description || ''}`.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+  const terms = words.filter(word => word.length >= 3 && !STOP_WORDS.has(word) && !/^\d+$/.test(word));
+  return [...new Set(terms)].slice(0, MAX_SEARCH_TERMS);
+}
+
+function renderItem(item: Pick<PackItem, 'kind' | 'title' | 'type' | 'priority' | 'scope' | 'content'>): string {
+  const meta = [item.type, item.priority, item.scope && item.scope !== 'project' ? item.scope : null].filter(Boolean).join(', ');
+  const label = item.kind === 'decision' ? 'Decision' : item.title;
+  return `- **${label}** (${meta}): ${item.content}`;
+}
+
+/**
+ * Keep the best-scored items while they fit in maxTokens. The first item
+ * that does not fit is cut to the room left (if enough remains); smaller
+ * items after it can still get in.
+ */
+export function packItems(candidates: Omit<PackItem, 'tokens' | 'truncated'>[], maxTokens: number, header: string): {
+  items: PackItem[];
+  omitted: ContextPack['omitted'];
+  used: number;
+  text: string;
+} {
+  const ranked = [...candidates].sort((a, b) => b.score - a.score || a.title.localeCompare(b.title));
+  const items: PackItem[] = [];
+  const omitted: ContextPack['omitted'] = [];
+  const lines = [header];
+  let used = estimateTokens(header);
+
+  for (const candidate of ranked) {
+    // +1 for the line break joining it to the text
+    const tokens = estimateTokens(renderItem(candidate)) + 1;
+    const room = maxTokens - used;
+    if (tokens <= room) {
+      items.push({ ...candidate, tokens, truncated: false });
+      lines.push(renderItem(candidate));
+      used += tokens;
+      continue;
+    }
+    if (room >= MIN_TRIMMED_TOKENS) {
+      const overflow = (tokens - room) * CHARS_PER_TOKEN + 1;
+      const content = `${candidate.content.slice(0, Math.max(0, candidate.content.length - overflow)).trimEnd()}…`;
+      const line = renderItem({ ...candidate, content });
+      items.push({ ...candidate, content, tokens: estimateTokens(line) + 1, truncated: true });
+      lines.push(line);
+      used += estimateTokens(line) + 1;
+      continue;
+    }
+    const { kind, id, title, score, reasons } = candidate;
+    omitted.push({ kind, id, title, score, reasons, tokens });
+  }
+
+  return { items, omitted, used, text: lines.join('\n') };
+}
+
+/**
+ * Gather what an agent should read before working on a task: the critical
+ * rules in the project's merged context (its own, its group's and global),
+ * conventions and patterns for the task's type, entries matching the words
+ * of its title and description, and the decisions linked to it with their
+ * context. Each item says why it was picked; the list is cut to max_tokens.
+ */
+export function buildContextPack(input: { task_id: string; max_tokens?: number }): {
+  success: boolean;
+  pack?: ContextPack;
+  error?: string;
+} {
+  try {
+    const row = queryOne<TaskRow>('SELECT * FROM tasks WHERE id = ?', [input.task_id]);
+    if (!row) {
+      return { success: false, error: 'Task not found' };
+    }
+    const task = toTask(row);
+    const project = queryOne<Project>('SELECT * FROM projects WHERE id = ?', [task.project_id]);
+    const maxTokens = input.max_tokens || DEFAULT_PACK_TOKENS;
+
+    const candidates = new Map<string, Omit<PackItem, 'tokens' | 'truncated'>>();
+    const add = (entry: ContextSearchResult, score: number, reason: string) => {
+      const existing = candidates.get(entry.id);
+      if (existing) {
+        existing.score += score;
+        existing.reasons.push(reason);
+        return;
+      }
+      candidates.set(entry.id, {
+        kind: 'context',
+        id: entry.id,
+        title: entry.name,
+        type: entry.type,
+        priority: entry.priority,
+        scope: entry.scope,
+        content: entry.content,
+        score: score + PRIORITY_BONUS[entry.priority],
+        reasons: [reason]
+      });
+    };
+    const fetch = (filters: { type?: ContextSearchResult['type']; search?: string }) => {
+      const result = queryContext({ project_id: task.project_id, limit: SOURCE_LIMIT, ...filters });
+      if (!result.success) throw new Error(result.error);
+      return result.results || [];
+    };
+
+    for (const entry of fetch({}).filter(c => c.priority === 'critical')) {
+      add(entry, SOURCE_SCORE.critical, entry.scope === 'project' ? 'Critical rule of the project' : `Critical rule (${entry.scope})`);
+    }
+
+    if (task.type) {
+      const terms = TYPE_TERMS[task.type];
+      for (const entry of [...fetch({ type: 'convention' }), ...fetch({ type: 'pattern' })]) {
+        const words = `${entry.name} ${entry.category || ''}`.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+        const term = words.find(word => terms.includes(word));
+        if (term) add(entry, SOURCE_SCORE.type_convention, `${entry.type === 'pattern' ? 'Pattern' : 'Convention'} for ${task.type} tasks ("${term}")`);
+      }
+    }
+
+    const searchTerms = taskSearchTerms(task);
+    if (searchTerms.length > 0) {
+      const hits = fetch({ search: searchTerms.join(' OR ') });
+      const best = Math.max(...hits.map(hit => hit.score || 0), 0);
+      for (const hit of hits) {
+        const text = `${hit.name} ${hit.content} ${hit.category || ''}`.toLowerCase();
+        const matched = searchTerms.filter(term => text.includes(term));
+        const relevance = best > 0 ? (hit.score || 0) / best : 1;
+        add(hit, Math.round(SOURCE_SCORE.search * relevance), `Matches the task's ${matched.map(term => `"${term}"`).join(', ') || 'words'}`);
+      }
+    }
+
+    const decisions = getDecisionHistory({ task_id: task.id, limit: SOURCE_LIMIT });
+    if (!decisions.success) throw new Error(decisions.error);
+    for (const decision of decisions.decisions || []) {
+      candidates.set(decision.id, decisionItem(decision));
+      for (const context_id of decision.context_ids || []) {
+        const entry = queryOne<Context>('SELECT * FROM context WHERE id = ?', [context_id]);
+        if (entry) add({ ...entry, scope: scopeOf(entry) }, SOURCE_SCORE.decision_context, `Linked to decision "${truncateText(decision.decision, 60)}"`);
+      }
+    }
+
+    const header = `# Context for task: ${task.title}${project ? ` (${project.name})` : ''}`;
+    const packed = packItems([...candidates.values()], maxTokens, header);
+
+    return {
+      success: true,
+      pack: {
+        task: { id: task.id, title: task.title, type: task.type, status: task.status, priority: task.priority },
+        max_tokens: maxTokens,
+        used_tokens: packed.used,
+        items: packed.items,
+        omitted: packed.omitted,
+        search_terms: searchTerms,
+        text: packed.text
+      }
+    };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+function decisionItem(decision: DecisionLog): Omit<PackItem, 'tokens' | 'truncated'> {
+  const reasoning = decision.reasoning ? ` (why: ${decision.reasoning})` : '';
+  return {
+    kind: 'decision',
+    id: decision.id,
+    title: decision.decision,
+    type: decision.decision_type,
+    content: `${decision.decision}${reasoning}`,
+    score: SOURCE_SCORE.linked_decision,
+    reasons: ['Decision linked to this task']
+  };
+}
+
+function truncateText(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1)}…`;
+}
@@ -1,133 +1,393 @@
 /**
  * AuraCore MCP - Database Layer (SQLite via sql.js)
  */
-import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
+import initSqlJs, { Database as SqlJsDatabase, SqlJsStatic } from 'sql.js';
 import * as path from 'path';
-import * as os from 'os';
 import * as fs from 'fs';
+import { runMigrations, getSchemaVersion, SCHEMA_VERSION } from './migrations';
+import { withLock } from './lock';
+import { WorkspaceTarget, resolveStartupWorkspace } from './config';
 
-// Database path in user home
-const AURACORE_DIR = path.join(os.homedir(), '.auracore');
-const DB_PATH = path.join(AURACORE_DIR, 'auracore.db');
+let SQL: SqlJsStatic | null = null;
+let db: SqlJsDatabase | null = null;
+let dbInitPromise: Promise<SqlJsDatabase> | null = null;
 
-// Ensure directory exists
-if (!fs.existsSync(AURACORE_DIR)) {
-  fs.mkdirSync(AURACORE_DIR, { recursive: true });
+// Resolved when a database is opened, never at import time
+let currentWorkspace: WorkspaceTarget | null = null;
+let dbPath = '';
+let lockPath = '';
+
+/**
+ * Several server processes (one per client) share the same file. Each keeps
+ * the file signature it last loaded or wrote; when it changes, another
+ * process wrote and the file is reloaded. Writes not yet saved are kept as a
+ * journal of operations (a single statement, or everything one transaction
+ * wrote) and replayed on top of the reloaded file.
+ */
+interface JournalStatement {
+  sql: string;
+  params?: any[];
 }
 
-let db: SqlJsDatabase | null = null;
-let dbInitPromise: Promise<SqlJsDatabase> | null = null;
+export interface SyncConflict {
+  sql: string;          // The statement that failed
+  statements: number;   // Statements of its operation, all dropped with it
+  error: string;
+  at: string;
+}
 
-// Initialize database (singleton pattern)
-export async function initDatabase(): Promise<SqlJsDatabase> {
+let diskSignature: string | null = null;
+let journal: JournalStatement[][] = [];
+// Statements of the transaction in progress, journaled as one operation on commit
+let openTransaction: JournalStatement[] | null = null;
+let syncConflicts: SyncConflict[] = [];
+
+/**
+ * Initialize database (singleton pattern). Opens the workspace given on the
+ * command line or in the environment unless a target is passed.
+ */
+export async function initDatabase(target?: WorkspaceTarget): Promise<SqlJsDatabase> {
   if (db) return db;
   if (dbInitPromise) return dbInitPromise;
 
   dbInitPromise = (async () => {
-    const SQL = await initSqlJs();
+    SQL = await initSqlJs();
+    openDatabaseFile(target || resolveStartupWorkspace());
+    installShutdownHooks();
+    return db!;
+  })();
+
+  return dbInitPromise;
+}
 
+/**
+ * Save and close the current database, then open another workspace.
+ * Refuses to switch if pending changes cannot be written.
+ */
+export function switchDatabase(target: WorkspaceTarget): void {
+  if (!SQL || !db) throw new Error('Database not initialized. Call initDatabase() first.');
+  if (target.db_path === dbPath) {
+    currentWorkspace = target;
+    return;
+  }
+
+  if (!flushDatabase()) {
+    throw new Error(`Cannot switch workspace: pending changes could not be saved to ${dbPath}`);
+  }
+
+  const previous = { db, workspace: currentWorkspace };
+  try {
+    openDatabaseFile(target);
+  } catch (error) {
+    if (db !== previous.db) db?.close();
+    db = previous.db;
+    setPaths(previous.workspace!);
+    throw error;
+  }
+  previous.db.close();
+}
+
+export function getCurrentWorkspace(): WorkspaceTarget | null {
+  return currentWorkspace;
+}
+
+export function getDbPath(): string {
+  return dbPath;
+}
+
+function setPaths(target: WorkspaceTarget): void {
+  currentWorkspace = target;
+  dbPath = target.db_path;
+  lockPath = `${dbPath}.lock`;
+}
+
+// Per-connection settings; sql.js reopens the connection on every export()
+function configureConnection(database: SqlJsDatabase): void {
+  // Makes the ON DELETE CASCADE / SET NULL clauses of the schema effective
+  database.run('PRAGMA foreign_keys = ON');
+}
+
+// Load (or create), migrate and write the database file of a workspace
+function openDatabaseFile(target: WorkspaceTarget): void {
+  const sqlJs = SQL!;
+  fs.mkdirSync(path.dirname(target.db_path), { recursive: true });
+  const targetLock = `${target.db_path}.lock`;
+
+  // Hold the lock so two processes starting together do not both migrate
+  const database = withLock(targetLock, () => {
     // Load existing database or create new
-    if (fs.existsSync(DB_PATH)) {
-      const buffer = fs.readFileSync(DB_PATH);
-      db = new SQL.Database(buffer);
-    } else {
-      db = new SQL.Database();
+    const exists = fs.existsSync(target.db_path);
+    const opened = exists ? new sqlJs.Database(fs.readFileSync(target.db_path)) : new sqlJs.Database();
+
+    try {
+      // Keep a copy of the file as it was before any schema change
+      const currentVersion = getSchemaVersion(opened);
+      if (exists && currentVersion < SCHEMA_VERSION) {
+        const backupPath = `${target.db_path}.v${currentVersion}-${Date.now()}.bak`;
+        fs.copyFileSync(target.db_path, backupPath);
+        console.error(`Backed up database to ${backupPath} before migrating`);
+      }
+
+      const migration = runMigrations(opened);
+      if (migration.applied.length > 0) {
+        console.error(`Database migrated from v${migration.from} to v${migration.to}: ${migration.applied.join(', ')}`);
+      }
+    } catch (error) {
+      opened.close();
+      throw error;
     }
+    configureConnection(opened);
+    return opened;
+  });
 
-    // Create tables
-    db.run(`
-      CREATE TABLE IF NOT EXISTS projects (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        description TEXT,
-        type TEXT DEFAULT 'feature',
-        status TEXT DEFAULT 'active',
-        workspace_path TEXT,
-        created_at TEXT DEFAULT (datetime('now')),
-        updated_at TEXT DEFAULT (datetime('now'))
-      )
-    `);
-
-    db.run(`
-      CREATE TABLE IF NOT EXISTS context (
-        id TEXT PRIMARY KEY,
-        project_id TEXT,
-        type TEXT NOT NULL,
-        name TEXT NOT NULL,
-        content TEXT NOT NULL,
-        category TEXT,
-        priority TEXT DEFAULT 'medium',
-        metadata TEXT,
-        created_at TEXT DEFAULT (datetime('now')),
-        updated_at TEXT DEFAULT (datetime('now')),
-        FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
-      )
-    `);
-
-    db.run(`
-      CREATE TABLE IF NOT EXISTS tasks (
-        id TEXT PRIMARY KEY,
-        project_id TEXT NOT NULL,
-        title TEXT NOT NULL,
-        description TEXT,
-        status TEXT DEFAULT 'pending',
-        priority TEXT DEFAULT 'medium',
-        type TEXT,
-        depends_on TEXT,
-        estimated_time TEXT,
-        created_at TEXT DEFAULT (datetime('now')),
-        updated_at TEXT DEFAULT (datetime('now')),
-        completed_at TEXT,
-        FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
-      )
-    `);
-
-    db.run(`
-      CREATE TABLE IF NOT EXISTS session_memory (
-        id TEXT PRIMARY KEY,
-        session_id TEXT NOT NULL,
-        key TEXT NOT NULL,
-        value TEXT NOT NULL,
-        created_at TEXT DEFAULT (datetime('now')),
-        expires_at TEXT,
-        UNIQUE(session_id, key)
-      )
-    `);
-
-    db.run(`
-      CREATE TABLE IF NOT EXISTS decision_log (
-        id TEXT PRIMARY KEY,
-        project_id TEXT,
-        decision_type TEXT NOT NULL,
-        input_context TEXT,
-        decision TEXT NOT NULL,
-        confidence REAL,
-        reasoning TEXT,
-        was_correct INTEGER,
-        created_at TEXT DEFAULT (datetime('now')),
-        FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE SET NULL
-      )
-    `);
-
-    db.run(`CREATE INDEX IF NOT EXISTS idx_context_project ON context(project_id)`);
-    db.run(`CREATE INDEX IF NOT EXISTS idx_context_type ON context(type)`);
-    db.run(`CREATE INDEX IF NOT EXISTS idx_tasks_project ON tasks(project_id)`);
-    db.run(`CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status)`);
-    db.run(`CREATE INDEX IF NOT EXISTS idx_session_memory_session ON session_memory(session_id)`);
+  db = database;
+  setPaths(target);
+  journal = [];
+  openTransaction = null;
+  syncConflicts = [];
+  dirty = false;
+  firstPendingAt = null;
+  lastSaveError = null;
+  diskSignature = null;
+  withLock(lockPath, () => writeToDisk());
+}
 
-    saveDatabase();
-    return db;
-  })();
+// Identifies one version of the file: every save renames a new file into place
+function readDiskSignature(): string | null {
+  try {
+    const stat = fs.statSync(dbPath);
+    return `${stat.ino}:${stat.size}:${stat.mtimeMs}`;
+  } catch {
+    return null;
+  }
+}
 
-  return dbInitPromise;
+/**
+ * Load the file written by another process and replay this process's unsaved
+ * operations on top of it, each in its own transaction. An operation with a
+ * statement that no longer applies (for example a duplicate key the other
+ * process inserted first) is dropped as a whole and recorded as a conflict,
+ * so no operation is ever half applied.
+ */
+function reloadFromDisk(): void {
+  if (!SQL || !db) return;
+  const signature = readDiskSignature();
+  if (signature === null) return;
+
+  const fresh = new SQL.Database(fs.readFileSync(dbPath));
+  const version = getSchemaVersion(fresh);
+  if (version > SCHEMA_VERSION) {
+    fresh.close();
+    throw new Error(
+      `Database schema version ${version} was written by a newer auracore-mcp (this server supports ${SCHEMA_VERSION}). Restart with the newer version.`
+    );
+  }
+  configureConnection(fresh);
+
+  const kept: typeof journal = [];
+  for (const operation of journal) {
+    let current: JournalStatement | null = null;
+    fresh.run('BEGIN');
+    try {
+      for (current of operation) {
+        fresh.run(current.sql, current.params);
+      }
+      fresh.run('COMMIT');
+      kept.push(operation);
+    } catch (error) {
+      fresh.run('ROLLBACK');
+      syncConflicts.push({ sql: current!.sql, statements: operation.length, error: String(error), at: new Date().toISOString() });
+      console.error(`Dropped a write of ${operation.length} statement(s) that conflicts with another process: ${error}`);
+    }
+  }
+
+  db.close();
+  db = fresh;
+  journal = kept;
+  dirty = kept.length > 0;
+  diskSignature = signature;
 }
 
-// Save database to file
-export function saveDatabase(): void {
+/**
+ * Pick up changes other processes saved since this one last read or wrote
+ * the file. Call at the start of each request, never inside a transaction.
+ */
+export function refreshFromDisk(): void {
+  if (!db) return;
+  const signature = readDiskSignature();
+  if (signature !== null && signature !== diskSignature) {
+    reloadFromDisk();
+  }
+}
+
+// Writes from earlier requests that were rejected while merging; cleared once read
+export function takeSyncConflicts(): SyncConflict[] {
+  const conflicts = syncConflicts;
+  syncConflicts = [];
+  return conflicts;
+}
+
+// Debounce window for saves, and the longest a change may wait on disk
+const SAVE_DELAY_MS = Number(process.env.AURACORE_SAVE_DELAY_MS) || 500;
+const SAVE_MAX_WAIT_MS = 5000;
+const SAVE_RETRY_MS = 5000;
+
+let dirty = false;
+let saveTimer: NodeJS.Timeout | null = null;
+let firstPendingAt: number | null = null;
+let lastSaveError: { message: string; at: string } | null = null;
+let shutdownHooksInstalled = false;
+
+// Export and write atomically. Caller holds the lock.
+function writeToDisk(): void {
   if (!db) return;
   const data = db.export();
-  const buffer = Buffer.from(data);
-  fs.writeFileSync(DB_PATH, buffer);
+  configureConnection(db);
+  const tmpPath = `${dbPath}.tmp-${process.pid}`;
+
+  try {
+    const fd = fs.openSync(tmpPath, 'w');
+    try {
+      fs.writeSync(fd, data);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmpPath, dbPath);
+  } catch (error) {
+    try { fs.rmSync(tmpPath, { force: true }); } catch { /* best effort */ }
+    throw error;
+  }
+
+  diskSignature = readDiskSignature();
+  journal = [];
+}
+
+/**
+ * Save database to file. Under the cross-process lock, merges in changes
+ * another process saved meanwhile, then writes a temp file next to the
+ * database, syncs it and renames it over the old one, so a crash never
+ * leaves a truncated file. Throws if the write fails; the in-memory data is
+ * kept and stays dirty.
+ */
+export function saveDatabase(): void {
+  if (!db) return;
+
+  try {
+    withLock(lockPath, () => {
+      if (readDiskSignature() !== diskSignature) {
+        reloadFromDisk();
+      }
+      writeToDisk();
+    });
+  } catch (error) {
+    dirty = true;
+    lastSaveError = { message: String(error), at: new Date().toISOString() };
+    throw error;
+  }
+
+  markSaved();
+}
+
+function markSaved(): void {
+  dirty = false;
+  firstPendingAt = null;
+  lastSaveError = null;
+}
+
+// Queue a save: bursts of writes are coalesced into one file write
+export function scheduleSave(): void {
+  dirty = true;
+  const now = Date.now();
+  if (firstPendingAt === null) firstPendingAt = now;
+
+  const delay = Math.max(0, Math.min(SAVE_DELAY_MS, firstPendingAt + SAVE_MAX_WAIT_MS - now));
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = setTimeout(runScheduledSave, delay);
+  // Pending saves must not keep the process alive; the exit hook flushes them
+  saveTimer.unref();
+}
+
+function runScheduledSave(): void {
+  saveTimer = null;
+  try {
+    saveDatabase();
+  } catch (error) {
+    console.error(`Failed to save database, retrying in ${SAVE_RETRY_MS / 1000}s:`, error);
+    saveTimer = setTimeout(runScheduledSave, SAVE_RETRY_MS);
+    saveTimer.unref();
+  }
+}
+
+// Write pending changes now. Returns false (and logs) if the write failed.
+export function flushDatabase(): boolean {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  if (!dirty) return true;
+  try {
+    saveDatabase();
+    return true;
+  } catch (error) {
+    console.error('Failed to flush database:', error);
+    return false;
+  }
+}
+
+/**
+ * Run a read-check-write sequence atomically across server processes: under
+ * the lock, load what other processes saved, run fn and write its changes
+ * before releasing. For compare-and-set style updates, which must not be
+ * replayed blindly on top of a newer file. A failed write is reported like a
+ * failed debounced save: the change stays in memory and is retried.
+ */
+export function runExclusive<T>(fn: () => T): T {
+  if (!db) throw new Error('Database not initialized. Call initDatabase() first.');
+
+  return withLock(lockPath, () => {
+    if (readDiskSignature() !== diskSignature) {
+      reloadFromDisk();
+    }
+    const result = fn();
+
+    if (dirty) {
+      try {
+        writeToDisk();
+        if (saveTimer) {
+          clearTimeout(saveTimer);
+          saveTimer = null;
+        }
+        markSaved();
+      } catch (error) {
+        lastSaveError = { message: String(error), at: new Date().toISOString() };
+        console.error('Failed to save database, will retry:', error);
+      }
+    }
+    return result;
+  });
+}
+
+/**
+ * Persistence problems the caller should hear about: set when the latest
+ * save failed and changes exist only in memory.
+ */
+export function getPersistenceError(): string | null {
+  if (!lastSaveError || !dirty) return null;
+  return `Changes are kept in memory but could not be saved to ${dbPath} (${lastSaveError.message}, at ${lastSaveError.at}). Saving will be retried.`;
+}
+
+// Flush pending changes when the process is asked to stop or exits
+function installShutdownHooks(): void {
+  if (shutdownHooksInstalled) return;
+  shutdownHooksInstalled = true;
+
+  process.on('exit', () => { flushDatabase(); });
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+      process.exit(flushDatabase() ? 0 : 1);
+    });
+  }
 }
 
 // Get database instance (throws if not initialized)
@@ -136,7 +396,7 @@ export function getDb(): SqlJsDatabase {
   return db;
 }
 
-// Helper: run query and save
+// Helper: run query and schedule a save
 export function runAndSave(sql: string, params?: any[]): void {
   const database = getDb();
   if (params) {
@@ -144,7 +404,39 @@ export function runAndSave(sql: string, params?: any[]): void {
   } else {
     database.run(sql);
   }
-  saveDatabase();
+  if (openTransaction) {
+    openTransaction.push({ sql, params });
+  } else {
+    journal.push([{ sql, params }]);
+  }
+  scheduleSave();
+}
+
+/**
+ * Run fn in one SQL transaction, journaled as one operation: if another
+ * process wrote meanwhile, it is replayed whole or not at all. If fn throws,
+ * everything it wrote is rolled back and never journaled, so a half-done
+ * change is neither kept in memory nor saved. A nested call joins the
+ * transaction already open.
+ */
+export function runInTransaction<T>(fn: () => T): T {
+  const database = getDb();
+  if (openTransaction) return fn();
+
+  const statements: JournalStatement[] = [];
+  database.run('BEGIN');
+  openTransaction = statements;
+  try {
+    const result = fn();
+    database.run('COMMIT');
+    if (statements.length > 0) journal.push(statements);
+    return result;
+  } catch (error) {
+    database.run('ROLLBACK');
+    throw error;
+  } finally {
+    openTransaction = null;
+  }
 }
 
 // Helper: get all rows
@@ -167,5 +459,3 @@ export function queryOne<T>(sql: string, params?: any[]): T | undefined {
   const results = queryAll<T>(sql, params);
   return results[0];
 }
-
-export { DB_PATH, AURACORE_DIR };
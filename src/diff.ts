@@ -0,0 +1,133 @@
+/**
+ * AuraCore MCP - Text Diff
+ * Line diff between two versions of a text, rendered as a unified diff
+ */
+
+export interface DiffLine {
+  op: 'equal' | 'add' | 'remove';
+  text: string;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+// Beyond this many line pairs the LCS table is too large; fall back to replacing every changed line
+const MAX_LCS_CELLS = 4_000_000;
+const CONTEXT_LINES = 3;
+
+const splitLines = (text: string) => (text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n'));
+
+/**
+ * Shortest edit between the lines of a and b (longest common subsequence).
+ * Lines shared at both ends are matched first so only the changed middle
+ * goes through the quadratic table.
+ */
+export function diffLines(a: string, b: string): DiffLine[] {
+  const left = splitLines(a);
+  const right = splitLines(b);
+
+  let start = 0;
+  while (start < left.length && start < right.length && left[start] === right[start]) start++;
+  let endLeft = left.length;
+  let endRight = right.length;
+  while (endLeft > start && endRight > start && left[endLeft - 1] === right[endRight - 1]) {
+    endLeft--;
+    endRight--;
+  }
+
+  const head: DiffLine[] = left.slice(0, start).map(text => ({ op: 'equal', text }));
+  const tail: DiffLine[] = left.slice(endLeft).map(text => ({ op: 'equal', text }));
+  const x = left.slice(start, endLeft);
+  const y = right.slice(start, endRight);
+
+  if (x.length * y.length > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...x.map(text => ({ op: 'remove' as const, text })),
+      ...y.map(text => ({ op: 'add' as const, text })),
+      ...tail
+    ];
+  }
+
+  // lengths[i][j]: LCS of x[i..] and y[j..]
+  const lengths: Uint32Array[] = Array.from({ length: x.length + 1 }, () => new Uint32Array(y.length + 1));
+  for (let i = x.length - 1; i >= 0; i--) {
+    for (let j = y.length - 1; j >= 0; j--) {
+      lengths[i][j] = x[i] === y[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < x.length && j < y.length) {
+    if (x[i] === y[j]) {
+      middle.push({ op: 'equal', text: x[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      middle.push({ op: 'remove', text: x[i++] });
+    } else {
+      middle.push({ op: 'add', text: y[j++] });
+    }
+  }
+  while (i < x.length) middle.push({ op: 'remove', text: x[i++] });
+  while (j < y.length) middle.push({ op: 'add', text: y[j++] });
+
+  return [...head, ...middle, ...tail];
+}
+
+export function diffStats(lines: DiffLine[]): DiffStats {
+  return {
+    added: lines.filter(line => line.op === 'add').length,
+    removed: lines.filter(line => line.op === 'remove').length
+  };
+}
+
+/**
+ * Render as a unified diff ("@@ -1,3 +1,4 @@" hunks with three lines of
+ * context). Returns an empty string when nothing changed.
+ */
+export function formatUnifiedDiff(lines: DiffLine[], fromLabel: string, toLabel: string): string {
+  const changed = lines.map((line, index) => (line.op === 'equal' ? -1 : index)).filter(index => index >= 0);
+  if (changed.length === 0) return '';
+
+  // Group changes whose context windows touch into one hunk
+  const ranges: [number, number][] = [];
+  for (const index of changed) {
+    const from = Math.max(0, index - CONTEXT_LINES);
+    const to = Math.min(lines.length, index + CONTEXT_LINES + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && from <= last[1]) last[1] = Math.max(last[1], to);
+    else ranges.push([from, to]);
+  }
+
+  // Line numbers on each side where every diff line begins
+  const leftAt: number[] = [];
+  const rightAt: number[] = [];
+  let leftLine = 1;
+  let rightLine = 1;
+  for (const line of lines) {
+    leftAt.push(leftLine);
+    rightAt.push(rightLine);
+    if (line.op !== 'add') leftLine++;
+    if (line.op !== 'remove') rightLine++;
+  }
+
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  for (const [from, to] of ranges) {
+    const hunk = lines.slice(from, to);
+    const leftCount = hunk.filter(line => line.op !== 'add').length;
+    const rightCount = hunk.filter(line => line.op !== 'remove').length;
+    // An empty side is numbered after the line it follows, as diff -u does
+    const leftStart = leftCount === 0 ? leftAt[from] - 1 : leftAt[from];
+    const rightStart = rightCount === 0 ? rightAt[from] - 1 : rightAt[from];
+    output.push(`@@ -${leftStart},${leftCount} +${rightStart},${rightCount} @@`);
+    for (const line of hunk) {
+      output.push(`${line.op === 'add' ? '+' : line.op === 'remove' ? '-' : ' '}${line.text}`);
+    }
+  }
+  return output.join('\n');
+}
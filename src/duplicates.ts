@@ -0,0 +1,202 @@
+/**
+ * AuraCore MCP - Context Duplicates
+ * Near-duplicate and conflicting context entries: the check run when storing, and the lint report
+ */
+import { queryAll, queryOne } from './database';
+import { scopeCondition, scopeOf, overrideKey, ScopeLayers } from './scopes';
+import { Context, ContextDuplicate, ContextScope, Project } from './types';
+
+// Content this similar (0-1) counts as the same entry
+export const DEFAULT_SIMILARITY = 0.7;
+// Names this similar point at the same rule, whatever their content
+const NAME_SIMILARITY = 0.8;
+
+// Words that flip a rule ("Use tabs" / "Never use tabs"), English and French
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'don', 'doesn', 'shouldn', 'mustn', 'avoid', 'without', 'forbidden', 'disallow',
+  'ne', 'pas', 'jamais', 'aucun', 'aucune', 'sans', 'eviter', 'interdit', 'interdite'
+]);
+
+type ComparedEntry = Pick<Context, 'id' | 'name' | 'type' | 'content' | 'priority'> & {
+  project_id?: string | null;
+  group_name?: string | null;
+  key?: string | null;
+};
+
+// Lowercase words without accents, so "Règle" and "regle" meet
+function words(text: string): string[] {
+  return text.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+// Character trigrams of each word: "convention" and "conventions" share most of them
+function trigrams(text: string): Set<string> {
+  const grams = new Set<string>();
+  for (const word of words(text)) {
+    const padded = `<${word}>`;
+    for (let i = 0; i + 3 <= padded.length; i++) grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+// Dice coefficient of two sets: 1 when equal, 0 when disjoint
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return (2 * shared) / (a.size + b.size);
+}
+
+const sameText = (a: string, b: string) => words(a).join(' ') === words(b).join(' ');
+const negated = (text: string) => words(text).some(word => NEGATIONS.has(word));
+const round = (value: number) => Math.round(value * 100) / 100;
+
+interface Comparison {
+  name_similarity: number;
+  content_similarity: number;
+  same_key: boolean;
+  identical: boolean;
+}
+
+// Trigram sets are computed once per entry, not once per pair
+function prepare<T extends ComparedEntry>(entry: T) {
+  return { entry, name: trigrams(entry.name), content: trigrams(entry.content), key: overrideKey(entry) };
+}
+
+function compare(a: ReturnType<typeof prepare>, b: ReturnType<typeof prepare>): Comparison {
+  return {
+    name_similarity: round(dice(a.name, b.name)),
+    content_similarity: round(dice(a.content, b.content)),
+    same_key: a.key === b.key,
+    identical: sameText(a.entry.content, b.entry.content)
+  };
+}
+
+/**
+ * Existing entries that look like the same entry as candidate: identical
+ * content, the same override key (key, or name), or a similar name or
+ * content. Closest first. Callers pass the entries of candidate's own layer;
+ * the same key in another layer is an override, not a duplicate.
+ */
+export function findDuplicates(
+  candidate: Pick<ComparedEntry, 'name' | 'content' | 'key'>,
+  existing: ComparedEntry[],
+  threshold: number = DEFAULT_SIMILARITY
+): ContextDuplicate[] {
+  const target = prepare({ id: '', type: 'convention', priority: 'medium', ...candidate });
+  const duplicates: ContextDuplicate[] = [];
+  for (const other of existing.map(prepare)) {
+    const comparison = compare(target, other);
+    const match = comparison.identical ? 'identical'
+      : comparison.same_key ? 'same_key'
+        : comparison.name_similarity >= NAME_SIMILARITY || comparison.content_similarity >= threshold ? 'similar'
+          : null;
+    if (!match) continue;
+    duplicates.push({
+      id: other.entry.id,
+      name: other.entry.name,
+      type: other.entry.type,
+      scope: scopeOf(other.entry),
+      content: other.entry.content,
+      match,
+      name_similarity: comparison.name_similarity,
+      content_similarity: comparison.content_similarity
+    });
+  }
+
+  const rank = { identical: 0, same_key: 1, similar: 2 };
+  return duplicates.sort((a, b) => rank[a.match] - rank[b.match]
+    || Math.max(b.name_similarity, b.content_similarity) - Math.max(a.name_similarity, a.content_similarity));
+}
+
+export interface LintIssue {
+  kind: 'duplicate' | 'conflict' | 'redundant_override';
+  reason: string;
+  entries: { id: string; name: string; type: Context['type']; scope: ContextScope; priority: Context['priority'] }[];
+  name_similarity: number;
+  content_similarity: number;
+}
+
+const KIND_ORDER: Record<LintIssue['kind'], number> = { conflict: 0, duplicate: 1, redundant_override: 2 };
+
+/**
+ * Classify a pair of entries, or null when they are unrelated (or one is a
+ * deliberate override of the other, with different content).
+ */
+function lintPair(a: ComparedEntry, b: ComparedEntry, comparison: Comparison, threshold: number): Pick<LintIssue, 'kind' | 'reason'> | null {
+  const similarContent = comparison.identical || comparison.content_similarity >= threshold;
+  const flipped = negated(a.content) !== negated(b.content);
+
+  if (scopeOf(a) !== scopeOf(b) && comparison.same_key) {
+    return similarContent && !flipped
+      ? { kind: 'redundant_override', reason: 'Overrides an entry of a lower layer with the same content' }
+      : null;
+  }
+  if (comparison.same_key) {
+    return similarContent && !flipped
+      ? { kind: 'duplicate', reason: 'Same key in the same layer, with the same content' }
+      : { kind: 'conflict', reason: 'Same key in the same layer, with different content: neither overrides the other' };
+  }
+  if (similarContent) {
+    return flipped
+      ? { kind: 'conflict', reason: 'Similar wording, but only one of them is negated' }
+      : { kind: 'duplicate', reason: comparison.identical ? 'Identical content' : 'Similar content' };
+  }
+  if (comparison.name_similarity >= NAME_SIMILARITY) {
+    return { kind: 'conflict', reason: 'Similar names, different content' };
+  }
+  return null;
+}
+
+/**
+ * Report near-duplicate and conflicting entries among those a project (or
+ * group) sees: its own, its group's and the global ones. Conflicts first.
+ */
+export function lintContext(input: ScopeLayers & { threshold?: number }): {
+  success: boolean;
+  entries_checked?: number;
+  issues?: LintIssue[];
+  counts?: Record<LintIssue['kind'], number>;
+  error?: string;
+} {
+  try {
+    let group_name = input.group_name;
+    if (input.project_id) {
+      const project = queryOne<Project>('SELECT id, group_name FROM projects WHERE id = ?', [input.project_id]);
+      if (!project) {
+        return { success: false, error: 'Project not found' };
+      }
+      if (group_name === undefined) group_name = project.group_name;
+    }
+    const threshold = input.threshold ?? DEFAULT_SIMILARITY;
+    const layers = scopeCondition('c', { project_id: input.project_id, group_name });
+    const entries = queryAll<ComparedEntry>(
+      `SELECT c.id, c.project_id, c.group_name, c.key, c.type, c.name, c.content, c.priority FROM context c
+       WHERE ${layers.sql} ORDER BY c.created_at`,
+      layers.params
+    ).map(prepare);
+
+    const issues: LintIssue[] = [];
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        const comparison = compare(entries[i], entries[j]);
+        const issue = lintPair(entries[i].entry, entries[j].entry, comparison, threshold);
+        if (!issue) continue;
+        issues.push({
+          ...issue,
+          entries: [entries[i].entry, entries[j].entry].map(({ id, name, type, priority, ...entry }) => ({
+            id, name, type, scope: scopeOf(entry), priority
+          })),
+          name_similarity: comparison.name_similarity,
+          content_similarity: comparison.content_similarity
+        });
+      }
+    }
+
+    issues.sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || b.content_similarity - a.content_similarity);
+    const counts = { conflict: 0, duplicate: 0, redundant_override: 0 };
+    for (const issue of issues) counts[issue.kind]++;
+    return { success: true, entries_checked: entries.length, issues, counts };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * AuraCore MCP - Embedding Providers
+ * Text-to-vector providers for semantic search: a local hashing embedder and an HTTP model server adapter
+ */
+import { getCliOption } from './config';
+
+/**
+ * Turns texts into vectors. Vectors from different providers (or models) are
+ * not comparable, so each provider has an id stored with its vectors.
+ */
+export interface EmbeddingProvider {
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export const DEFAULT_HASH_DIMENSIONS = 512;
+const HTTP_TIMEOUT_MS = 30000;
+
+// FNV-1a, 32 bits: cheap, stable across runs and platforms
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Lowercase words without accents, so "Règle" and "regle" meet
+function words(text: string): string[] {
+  return text.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+export function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return length > 0 ? vector.map(x => x / length) : vector;
+}
+
+// Cosine similarity; vectors of different lengths never match
+export function cosine(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Deterministic local embedder (feature hashing): every word and every
+ * character trigram of a word is hashed to a signed dimension. Needs no model
+ * and no network; it finds shared words and word parts ("auth" and
+ * "authentication"), not synonyms, which need a model server.
+ */
+export function createHashingEmbedder(dimensions: number = DEFAULT_HASH_DIMENSIONS): EmbeddingProvider {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      vector[hash % dimensions] += (hash & 0x80000000) ? -weight : weight;
+    };
+    for (const word of words(text)) {
+      add(`w:${word}`, 1);
+      const padded = `<${word}>`;
+      for (let i = 0; i + 3 <= padded.length; i++) add(`t:${padded.slice(i, i + 3)}`, 0.5);
+    }
+    return normalize(vector);
+  };
+  return { id: `hash-${dimensions}`, embed: async texts => texts.map(embedOne) };
+}
+
+/**
+ * Adapter for a local model server. Sends {model, input: texts} to url and
+ * reads OpenAI-style {data: [{embedding}]} (OpenAI-compatible servers such as
+ * llama.cpp, LM Studio or Ollama's /v1/embeddings) or Ollama's
+ * {embeddings: [...]} (/api/embed).
+ */
+export function createHttpEmbedder(options: { url: string; model: string; apiKey?: string }): EmbeddingProvider {
+  return {
+    id: `http:${options.model}`,
+    embed: async texts => {
+      const response = await fetch(options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {})
+        },
+        body: JSON.stringify({ model: options.model, input: texts }),
+        signal: AbortSignal.timeout(HTTP_TIMEOUT_MS)
+      });
+      if (!response.ok) {
+        throw new Error(`Embedding server returned ${response.status}: ${(await response.text()).slice(0, 200)}`);
+      }
+
+      const body = await response.json() as { data?: { embedding: number[]; index?: number }[]; embeddings?: number[][] };
+      const vectors = body.data
+        ? [...body.data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0)).map(item => item.embedding)
+        : body.embeddings;
+      if (!Array.isArray(vectors) || vectors.length !== texts.length) {
+        throw new Error(`Embedding server returned ${Array.isArray(vectors) ? vectors.length : 'no'} vectors for ${texts.length} texts`);
+      }
+      return vectors;
+    }
+  };
+}
+
+/**
+ * Provider chosen by --embeddings or AURACORE_EMBEDDINGS:
+ * - off (default): no semantic index
+ * - hash: the local hashing embedder
+ * - http: a model server at AURACORE_EMBEDDINGS_URL, with AURACORE_EMBEDDINGS_MODEL
+ *   (and AURACORE_EMBEDDINGS_API_KEY if it needs one)
+ */
+export function configuredEmbeddingProvider(): EmbeddingProvider | null {
+  const kind = (getCliOption('--embeddings') || process.env.AURACORE_EMBEDDINGS || 'off').toLowerCase();
+  switch (kind) {
+    case 'off':
+      return null;
+    case 'hash':
+      return createHashingEmbedder();
+    case 'http': {
+      const url = process.env.AURACORE_EMBEDDINGS_URL;
+      const model = process.env.AURACORE_EMBEDDINGS_MODEL;
+      if (!url || !model) {
+        throw new Error('AURACORE_EMBEDDINGS=http needs AURACORE_EMBEDDINGS_URL and AURACORE_EMBEDDINGS_MODEL');
+      }
+      return createHttpEmbedder({ url, model, apiKey: process.env.AURACORE_EMBEDDINGS_API_KEY });
+    }
+    default:
+      throw new Error(`Unknown embeddings provider "${kind}": use off, hash or http`);
+  }
+}
+
+let provider: EmbeddingProvider | null | undefined;
+
+// The active provider, or null when semantic search is off
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (provider === undefined) provider = configuredEmbeddingProvider();
+  return provider;
+}
+
+// Replace the provider (tests, embedding applications); returns a function that restores the previous one
+export function setEmbeddingProvider(replacement: EmbeddingProvider | null): () => void {
+  const previous = provider;
+  provider = replacement;
+  return () => { provider = previous; };
+}
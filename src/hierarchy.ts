@@ -0,0 +1,118 @@
+/**
+ * AuraCore MCP - Task Hierarchy
+ * Parent/child task trees, milestones and progress roll-up
+ */
+import { Task, Milestone, TaskProgress, TaskNode, MilestoneNode, TaskTree } from './types';
+
+export function emptyProgress(): TaskProgress {
+  return {
+    total: 0,
+    completed: 0,
+    percent_complete: 0,
+    by_status: { pending: 0, in_progress: 0, completed: 0, blocked: 0 }
+  };
+}
+
+function addProgress(into: TaskProgress, from: TaskProgress): void {
+  into.total += from.total;
+  into.completed += from.completed;
+  for (const status of Object.keys(from.by_status) as Task['status'][]) {
+    into.by_status[status] += from.by_status[status];
+  }
+  into.percent_complete = into.total > 0 ? Math.round((into.completed / into.total) * 100) : 0;
+}
+
+function sumProgress(nodes: TaskNode[]): TaskProgress {
+  const progress = emptyProgress();
+  for (const node of nodes) addProgress(progress, node.progress);
+  return progress;
+}
+
+/**
+ * Arrange a project's tasks into trees: subtasks under their parent,
+ * top-level tasks under their milestone (or at the root). Siblings keep the
+ * order of the input. A task whose parent is not in the list (archived, say)
+ * is shown at the top level.
+ */
+export function buildTaskTree(tasks: Task[], milestones: Milestone[]): TaskTree {
+  const ids = new Set(tasks.map(t => t.id));
+  const children = new Map<string, Task[]>();
+  const roots: Task[] = [];
+  for (const task of tasks) {
+    if (task.parent_id && ids.has(task.parent_id)) {
+      const siblings = children.get(task.parent_id) || [];
+      siblings.push(task);
+      children.set(task.parent_id, siblings);
+    } else {
+      roots.push(task);
+    }
+  }
+
+  const toNode = (task: Task): TaskNode => {
+    const subtasks = (children.get(task.id) || []).map(toNode);
+    let progress: TaskProgress;
+    if (subtasks.length > 0) {
+      progress = sumProgress(subtasks);
+    } else {
+      progress = emptyProgress();
+      progress.total = 1;
+      progress.by_status[task.status] = 1;
+      progress.completed = task.status === 'completed' ? 1 : 0;
+      progress.percent_complete = progress.completed * 100;
+    }
+    return { ...task, progress, subtasks };
+  };
+
+  const rootNodes = roots.map(toNode);
+  const milestoneNodes: MilestoneNode[] = milestones.map(milestone => {
+    const nodes = rootNodes.filter(node => node.milestone_id === milestone.id);
+    return { ...milestone, progress: sumProgress(nodes), tasks: nodes };
+  });
+  const known = new Set(milestones.map(m => m.id));
+  const unassigned = rootNodes.filter(node => !node.milestone_id || !known.has(node.milestone_id));
+
+  return { progress: sumProgress(rootNodes), milestones: milestoneNodes, tasks: unassigned };
+}
+
+// Short summary, e.g. "40% (2/5 tasks done)"
+export function formatProgress(progress: TaskProgress): string {
+  return `${progress.percent_complete}% (${progress.completed}/${progress.total} tasks done)`;
+}
+
+// Every task of a tree, parents before their subtasks
+export function flattenTaskTree(tree: { milestones?: MilestoneNode[]; tasks?: TaskNode[] }): Task[] {
+  const tasks: Task[] = [];
+  const visit = (node: TaskNode) => {
+    const { progress, subtasks, ...task } = node;
+    tasks.push(task);
+    subtasks.forEach(visit);
+  };
+  for (const milestone of tree.milestones || []) milestone.tasks.forEach(visit);
+  (tree.tasks || []).forEach(visit);
+  return tasks;
+}
+
+// IDs of all tasks below task_id, nearest first
+export function descendantIds(task_id: string, tasks: Pick<Task, 'id' | 'parent_id'>[]): string[] {
+  const result: string[] = [];
+  let frontier = [task_id];
+  while (frontier.length > 0) {
+    const next = tasks.filter(t => t.parent_id && frontier.includes(t.parent_id)).map(t => t.id);
+    result.push(...next);
+    frontier = next;
+  }
+  return result;
+}
+
+// Whether making parent_id the parent of task_id would put task_id below itself
+export function wouldCreateCycle(task_id: string, parent_id: string, tasks: Pick<Task, 'id' | 'parent_id'>[]): boolean {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const seen = new Set<string>();
+  let current: string | null | undefined = parent_id;
+  while (current && !seen.has(current)) {
+    if (current === task_id) return true;
+    seen.add(current);
+    current = byId.get(current)?.parent_id;
+  }
+  return false;
+}
@@ -0,0 +1,119 @@
+/**
+ * AuraCore MCP - HTTP Transport
+ * Serves MCP over SSE on localhost so several clients share one server and database
+ */
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { createServer } from './server';
+import { setWorkspaceSwitching } from './workspaces';
+
+export const DEFAULT_HTTP_PORT = 7337;
+// Only local clients: the token is the sole line of defence, not a firewall
+const HTTP_HOST = '127.0.0.1';
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+
+export interface HttpOptions {
+  port: number;
+  token: string;
+  allowedOrigins?: string[];   // Browser origins allowed besides the server's own (http://127.0.0.1:<port>, http://localhost:<port>)
+}
+
+export function generateToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+// Compare digests so neither the content nor the length of the token leaks through timing
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (!match) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+/**
+ * Guard against DNS rebinding: a web page whose domain is made to resolve to
+ * 127.0.0.1 reaches this server, but its requests carry that domain in Host
+ * (and in Origin). Only the local names of the server are accepted as Host;
+ * Origin, sent by browsers only, must be the server itself or an allowed
+ * origin.
+ */
+function isLocalRequest(req: http.IncomingMessage, port: number, allowedOrigins: string[]): boolean {
+  const hosts = [`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`];
+  if (!hosts.includes((req.headers.host || '').toLowerCase())) return false;
+
+  const origin = req.headers.origin;
+  if (origin === undefined) return true;
+  return [...hosts.map(host => `http://${host}`), ...allowedOrigins].includes(origin.toLowerCase().replace(/\/$/, ''));
+}
+
+function reply(res: http.ServerResponse, status: number, message: string, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8', ...headers }).end(message);
+}
+
+/**
+ * Listen for MCP clients: GET /sse opens a session (one MCP server per
+ * client, all sharing the process's database), and the client POSTs its
+ * messages to /messages?sessionId=<id>. Every request needs
+ * "Authorization: Bearer <token>" and a local Host (and Origin, if any).
+ * auracore_switch_workspace is refused, since it would switch every client.
+ */
+export function startHttpServer(options: HttpOptions): Promise<http.Server> {
+  setWorkspaceSwitching(false);
+  const sessions = new Map<string, SSEServerTransport>();
+  const allowedOrigins = (options.allowedOrigins || []).map(origin => origin.toLowerCase().replace(/\/$/, ''));
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', `http://${HTTP_HOST}`);
+
+      const { port } = httpServer.address() as AddressInfo;
+      if (!isLocalRequest(req, port, allowedOrigins)) {
+        reply(res, 403, 'Forbidden: unexpected Host or Origin');
+        return;
+      }
+
+      if (!isAuthorized(req, options.token)) {
+        reply(res, 401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+        return;
+      }
+
+      if (req.method === 'GET' && url.pathname === SSE_PATH) {
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        const server = createServer();
+        sessions.set(transport.sessionId, transport);
+        res.on('close', () => {
+          sessions.delete(transport.sessionId);
+          server.close().catch(() => {});
+        });
+        await server.connect(transport);
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+        const transport = sessions.get(url.searchParams.get('sessionId') || '');
+        if (!transport) {
+          reply(res, 404, 'Unknown session');
+          return;
+        }
+        await transport.handlePostMessage(req, res);
+        return;
+      }
+
+      reply(res, 404, 'Not found');
+    } catch (error) {
+      console.error('HTTP request failed:', error);
+      if (!res.headersSent) reply(res, 500, String(error));
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, HTTP_HOST, () => {
+      httpServer.off('error', reject);
+      resolve(httpServer);
+    });
+  });
+}
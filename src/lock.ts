@@ -0,0 +1,130 @@
+/**
+ * AuraCore MCP - Cross-Process File Lock
+ * Lock file next to the database, held only while the file is read or written
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 20;
+// A healthy holder keeps the lock for milliseconds; older locks are abandoned
+const LOCK_STALE_MS = 30000;
+
+interface LockInfo {
+  pid: number;
+  hostname: string;
+  acquired_at: number;
+}
+
+const sleepBuffer = new Int32Array(new SharedArrayBuffer(4));
+function sleepSync(ms: number): void {
+  Atomics.wait(sleepBuffer, 0, 0, ms);
+}
+
+function readLock(lockPath: string): LockInfo | null {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, 'utf8')) as LockInfo;
+  } catch {
+    return null;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * A lock is stale when its holder died (same host) or it is older than
+ * LOCK_STALE_MS. Unreadable locks count by file age, so a half-written lock
+ * from a crashed process does not block forever.
+ */
+function isStale(lockPath: string): boolean {
+  const info = readLock(lockPath);
+  if (!info) {
+    try {
+      return Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS;
+    } catch {
+      return true;
+    }
+  }
+  if (info.hostname === os.hostname() && !isProcessAlive(info.pid)) return true;
+  return Date.now() - info.acquired_at > LOCK_STALE_MS;
+}
+
+/**
+ * Remove a lock found stale. Deleting it by path could delete a fresh lock
+ * another process created since the check, so the file is first renamed
+ * away (only one process can rename it) and checked again under its new
+ * name. If it turns out to be live, it is put back, unless yet another
+ * process has created a lock meanwhile.
+ */
+function takeOverStaleLock(lockPath: string): void {
+  const claimed = `${lockPath}.${process.pid}-${crypto.randomBytes(4).toString('hex')}.stale`;
+  try {
+    fs.renameSync(lockPath, claimed);
+  } catch {
+    return; // Another process got there first
+  }
+
+  if (isStale(claimed)) {
+    console.error(`Removed stale database lock ${lockPath}`);
+  } else {
+    try { fs.linkSync(claimed, lockPath); } catch { /* a newer lock took its place */ }
+  }
+  try { fs.unlinkSync(claimed); } catch { /* already gone */ }
+}
+
+// Take the lock, waiting up to LOCK_TIMEOUT_MS. Throws if it stays busy.
+export function acquireLock(lockPath: string): void {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      try {
+        const info: LockInfo = { pid: process.pid, hostname: os.hostname(), acquired_at: Date.now() };
+        fs.writeSync(fd, JSON.stringify(info));
+      } finally {
+        fs.closeSync(fd);
+      }
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    if (isStale(lockPath)) {
+      takeOverStaleLock(lockPath);
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      const holder = readLock(lockPath);
+      throw new Error(`Database is locked by ${holder ? `pid ${holder.pid} on ${holder.hostname}` : 'another process'} (${lockPath})`);
+    }
+    sleepSync(LOCK_RETRY_MS);
+  }
+}
+
+// Release the lock if this process holds it
+export function releaseLock(lockPath: string): void {
+  const info = readLock(lockPath);
+  if (info && info.pid === process.pid && info.hostname === os.hostname()) {
+    try { fs.unlinkSync(lockPath); } catch { /* already gone */ }
+  }
+}
+
+export function withLock<T>(lockPath: string, fn: () => T): T {
+  acquireLock(lockPath);
+  try {
+    return fn();
+  } finally {
+    releaseLock(lockPath);
+  }
+}
@@ -0,0 +1,445 @@
+/**
+ * AuraCore MCP - Schema Migrations
+ * Ordered up-steps tracked through PRAGMA user_version
+ */
+import { Database as SqlJsDatabase } from 'sql.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: SqlJsDatabase) => void;
+}
+
+// Timestamp column as ISO 8601 UTC with milliseconds, or now if it is not a date
+const isoTimestamp = (column: string) =>
+  `COALESCE(strftime('%Y-%m-%dT%H:%M:%fZ', ${column}), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`;
+
+/**
+ * Replace the triggers that copy a context entry into context_revisions
+ * (first created by migration 10) with ones copying the given columns, for
+ * migrations that add revision columns. Triggers catch every write path
+ * (tools, sync, import, project cascade), and an update only counts when one
+ * of these columns changed. Writes stamp updated_at from the server clock; a
+ * deletion has no row left to read it from, so it uses the database's time.
+ */
+function createRevisionTriggers(db: SqlJsDatabase, columns: string[]): void {
+  const copy = (row: 'new' | 'old', action: string, changedAt: string) => `
+    INSERT INTO context_revisions (id, context_id, revision, action, ${columns.join(', ')}, changed_at)
+    VALUES (
+      lower(hex(randomblob(16))), ${row}.id,
+      COALESCE((SELECT MAX(revision) FROM context_revisions WHERE context_id = ${row}.id), 0) + 1,
+      '${action}', ${columns.map(column => `${row}.${column}`).join(', ')}, ${changedAt}
+    );`;
+
+  db.run('DROP TRIGGER IF EXISTS context_revisions_insert');
+  db.run('DROP TRIGGER IF EXISTS context_revisions_update');
+  db.run('DROP TRIGGER IF EXISTS context_revisions_delete');
+  db.run(`
+    CREATE TRIGGER context_revisions_insert AFTER INSERT ON context BEGIN
+      ${copy('new', 'created', isoTimestamp('new.updated_at'))}
+    END
+  `);
+  db.run(`
+    CREATE TRIGGER context_revisions_update AFTER UPDATE ON context
+    WHEN ${columns.map(column => `old.${column} IS NOT new.${column}`).join(' OR ')}
+    BEGIN
+      ${copy('new', 'updated', isoTimestamp('new.updated_at'))}
+    END
+  `);
+  db.run(`
+    CREATE TRIGGER context_revisions_delete AFTER DELETE ON context BEGIN
+      ${copy('old', 'deleted', "strftime('%Y-%m-%dT%H:%M:%fZ', 'now')")}
+    END
+  `);
+}
+
+// Append new migrations at the end; never edit or reorder a released one
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS projects (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT,
+          type TEXT DEFAULT 'feature',
+          status TEXT DEFAULT 'active',
+          workspace_path TEXT,
+          created_at TEXT DEFAULT (datetime('now')),
+          updated_at TEXT DEFAULT (datetime('now'))
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS context (
+          id TEXT PRIMARY KEY,
+          project_id TEXT,
+          type TEXT NOT NULL,
+          name TEXT NOT NULL,
+          content TEXT NOT NULL,
+          category TEXT,
+          priority TEXT DEFAULT 'medium',
+          metadata TEXT,
+          created_at TEXT DEFAULT (datetime('now')),
+          updated_at TEXT DEFAULT (datetime('now')),
+          FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS tasks (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL,
+          title TEXT NOT NULL,
+          description TEXT,
+          status TEXT DEFAULT 'pending',
+          priority TEXT DEFAULT 'medium',
+          type TEXT,
+          depends_on TEXT,
+          estimated_time TEXT,
+          created_at TEXT DEFAULT (datetime('now')),
+          updated_at TEXT DEFAULT (datetime('now')),
+          completed_at TEXT,
+          FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS session_memory (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          key TEXT NOT NULL,
+          value TEXT NOT NULL,
+          created_at TEXT DEFAULT (datetime('now')),
+          expires_at TEXT,
+          UNIQUE(session_id, key)
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS decision_log (
+          id TEXT PRIMARY KEY,
+          project_id TEXT,
+          decision_type TEXT NOT NULL,
+          input_context TEXT,
+          decision TEXT NOT NULL,
+          confidence REAL,
+          reasoning TEXT,
+          was_correct INTEGER,
+          created_at TEXT DEFAULT (datetime('now')),
+          FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE SET NULL
+        )
+      `);
+
+      db.run(`CREATE INDEX IF NOT EXISTS idx_context_project ON context(project_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_context_type ON context(type)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_tasks_project ON tasks(project_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_session_memory_session ON session_memory(session_id)`);
+    }
+  },
+  {
+    version: 2,
+    name: 'context_fts',
+    up: (db) => {
+      // sql.js ships FTS3/4 but not FTS5; docid mirrors context.rowid
+      db.run(`CREATE VIRTUAL TABLE IF NOT EXISTS context_fts USING fts4(name, content, category, tokenize=porter)`);
+
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS context_fts_insert AFTER INSERT ON context BEGIN
+          INSERT INTO context_fts (docid, name, content, category) VALUES (new.rowid, new.name, new.content, new.category);
+        END
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS context_fts_update AFTER UPDATE OF name, content, category ON context BEGIN
+          DELETE FROM context_fts WHERE docid = old.rowid;
+          INSERT INTO context_fts (docid, name, content, category) VALUES (new.rowid, new.name, new.content, new.category);
+        END
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS context_fts_delete AFTER DELETE ON context BEGIN
+          DELETE FROM context_fts WHERE docid = old.rowid;
+        END
+      `);
+
+      db.run(`INSERT INTO context_fts (docid, name, content, category) SELECT rowid, name, content, category FROM context`);
+    }
+  },
+  {
+    version: 3,
+    name: 'task_archiving',
+    up: (db) => {
+      db.run(`ALTER TABLE tasks ADD COLUMN archived_at TEXT`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_tasks_type ON tasks(type)`);
+    }
+  },
+  {
+    version: 4,
+    name: 'session_memory_ttl',
+    up: (db) => {
+      // Expiry used to be compared as text against datetime('now'); store ISO 8601 UTC only
+      db.run(`UPDATE session_memory SET expires_at = strftime('%Y-%m-%dT%H:%M:%fZ', expires_at) WHERE expires_at IS NOT NULL`);
+      db.run(`ALTER TABLE session_memory ADD COLUMN ttl_seconds INTEGER`);
+      db.run(`ALTER TABLE session_memory ADD COLUMN sliding INTEGER NOT NULL DEFAULT 0`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_session_memory_expires ON session_memory(expires_at)`);
+    }
+  },
+  {
+    version: 5,
+    name: 'structured_session_memory',
+    up: (db) => {
+      // 'string' values are stored as is, 'json' values as JSON text
+      db.run(`ALTER TABLE session_memory ADD COLUMN value_type TEXT NOT NULL DEFAULT 'string'`);
+      // Bumped on every write, for compare-and-set
+      db.run(`ALTER TABLE session_memory ADD COLUMN version INTEGER NOT NULL DEFAULT 1`);
+    }
+  },
+  {
+    version: 6,
+    name: 'decision_outcomes',
+    up: (db) => {
+      db.run(`ALTER TABLE decision_log ADD COLUMN outcome_note TEXT`);
+      db.run(`ALTER TABLE decision_log ADD COLUMN outcome_at TEXT`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_decision_log_project ON decision_log(project_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_decision_log_type ON decision_log(decision_type)`);
+    }
+  },
+  {
+    version: 7,
+    name: 'decision_relations',
+    up: (db) => {
+      // ADR-style lineage: this decision supersedes or amends related_decision_id
+      db.run(`ALTER TABLE decision_log ADD COLUMN relation TEXT`);
+      db.run(`ALTER TABLE decision_log ADD COLUMN related_decision_id TEXT REFERENCES decision_log(id) ON DELETE SET NULL`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_decision_log_related ON decision_log(related_decision_id)`);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS decision_tasks (
+          decision_id TEXT NOT NULL,
+          task_id TEXT NOT NULL,
+          PRIMARY KEY (decision_id, task_id),
+          FOREIGN KEY (decision_id) REFERENCES decision_log(id) ON DELETE CASCADE,
+          FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+        )
+      `);
+      db.run(`
+        CREATE TABLE IF NOT EXISTS decision_context (
+          decision_id TEXT NOT NULL,
+          context_id TEXT NOT NULL,
+          PRIMARY KEY (decision_id, context_id),
+          FOREIGN KEY (decision_id) REFERENCES decision_log(id) ON DELETE CASCADE,
+          FOREIGN KEY (context_id) REFERENCES context(id) ON DELETE CASCADE
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_decision_tasks_task ON decision_tasks(task_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_decision_context_context ON decision_context(context_id)`);
+    }
+  },
+  {
+    version: 8,
+    name: 'task_hierarchy',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS milestones (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT,
+          due_date TEXT,
+          created_at TEXT DEFAULT (datetime('now')),
+          updated_at TEXT DEFAULT (datetime('now')),
+          FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_milestones_project ON milestones(project_id)`);
+
+      db.run(`ALTER TABLE tasks ADD COLUMN parent_id TEXT REFERENCES tasks(id) ON DELETE CASCADE`);
+      db.run(`ALTER TABLE tasks ADD COLUMN milestone_id TEXT REFERENCES milestones(id) ON DELETE SET NULL`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_tasks_parent ON tasks(parent_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_tasks_milestone ON tasks(milestone_id)`);
+    }
+  },
+  {
+    version: 9,
+    name: 'task_status_history',
+    up: (db) => {
+      // One row per status change; from_status is NULL for the creation
+      db.run(`
+        CREATE TABLE IF NOT EXISTS task_status_history (
+          id TEXT PRIMARY KEY,
+          task_id TEXT NOT NULL,
+          from_status TEXT,
+          to_status TEXT NOT NULL,
+          changed_at TEXT NOT NULL,
+          FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_task_status_history_task ON task_status_history(task_id, changed_at)`);
+
+      // What existing rows tell: the creation, and the completion if any
+      db.run(`
+        INSERT INTO task_status_history (id, task_id, from_status, to_status, changed_at)
+        SELECT lower(hex(randomblob(16))), id, NULL, 'pending', created_at FROM tasks
+      `);
+      db.run(`
+        INSERT INTO task_status_history (id, task_id, from_status, to_status, changed_at)
+        SELECT lower(hex(randomblob(16))), id, 'pending', 'completed', completed_at FROM tasks
+        WHERE status = 'completed' AND completed_at IS NOT NULL
+      `);
+    }
+  },
+  {
+    version: 10,
+    name: 'context_revisions',
+    up: (db) => {
+      // Full copy of an entry after each change; kept when the entry is deleted (no foreign key)
+      db.run(`
+        CREATE TABLE IF NOT EXISTS context_revisions (
+          id TEXT PRIMARY KEY,
+          context_id TEXT NOT NULL,
+          revision INTEGER NOT NULL,
+          action TEXT NOT NULL,
+          project_id TEXT,
+          type TEXT NOT NULL,
+          name TEXT NOT NULL,
+          content TEXT NOT NULL,
+          category TEXT,
+          priority TEXT,
+          changed_at TEXT NOT NULL,
+          UNIQUE(context_id, revision)
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_context_revisions_changed ON context_revisions(changed_at)`);
+
+      // Triggers catch every write path (tools, sync, import, project cascade).
+      // Writes stamp updated_at from the server clock; a deletion has no row
+      // left to read it from, so it uses the database's time.
+      const copy = (row: 'new' | 'old', action: string, changedAt: string) => `
+        INSERT INTO context_revisions (id, context_id, revision, action, project_id, type, name, content, category, priority, changed_at)
+        VALUES (
+          lower(hex(randomblob(16))), ${row}.id,
+          COALESCE((SELECT MAX(revision) FROM context_revisions WHERE context_id = ${row}.id), 0) + 1,
+          '${action}', ${row}.project_id, ${row}.type, ${row}.name, ${row}.content, ${row}.category, ${row}.priority, ${changedAt}
+        );`;
+      const normalized = (column: string) => `COALESCE(strftime('%Y-%m-%dT%H:%M:%fZ', ${column}), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`;
+
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS context_revisions_insert AFTER INSERT ON context BEGIN
+          ${copy('new', 'created', normalized('new.updated_at'))}
+        END
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS context_revisions_update AFTER UPDATE ON context
+        WHEN old.name IS NOT new.name OR old.content IS NOT new.content OR old.type IS NOT new.type
+          OR old.category IS NOT new.category OR old.priority IS NOT new.priority OR old.project_id IS NOT new.project_id
+        BEGIN
+          ${copy('new', 'updated', normalized('new.updated_at'))}
+        END
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS context_revisions_delete AFTER DELETE ON context BEGIN
+          ${copy('old', 'deleted', "strftime('%Y-%m-%dT%H:%M:%fZ', 'now')")}
+        END
+      `);
+
+      // History starts here: existing entries count as unchanged since they were created
+      db.run(`
+        INSERT INTO context_revisions (id, context_id, revision, action, project_id, type, name, content, category, priority, changed_at)
+        SELECT lower(hex(randomblob(16))), id, 1, 'created', project_id, type, name, content, category, priority,
+               ${normalized('created_at')}
+        FROM context
+      `);
+    }
+  },
+  {
+    version: 11,
+    name: 'context_scopes',
+    up: (db) => {
+      // Context layers: global (no project, no group), a named group, a project.
+      // A project takes its group's entries; key lets an entry override another with a different name.
+      db.run(`ALTER TABLE projects ADD COLUMN group_name TEXT`);
+      db.run(`ALTER TABLE context ADD COLUMN group_name TEXT`);
+      db.run(`ALTER TABLE context ADD COLUMN key TEXT`);
+      db.run(`ALTER TABLE context_revisions ADD COLUMN group_name TEXT`);
+      db.run(`ALTER TABLE context_revisions ADD COLUMN key TEXT`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_context_group ON context(group_name)`);
+      createRevisionTriggers(db, ['project_id', 'group_name', 'type', 'name', 'key', 'content', 'category', 'priority']);
+    }
+  },
+  {
+    version: 12,
+    name: 'embeddings',
+    up: (db) => {
+      // Vectors for semantic search, one per context entry or decision. content_hash
+      // tells whether the text changed since it was embedded; provider whether the
+      // vector is comparable with the active provider's.
+      db.run(`
+        CREATE TABLE IF NOT EXISTS embeddings (
+          source TEXT NOT NULL,
+          source_id TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          content_hash TEXT NOT NULL,
+          vector BLOB NOT NULL,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (source, source_id)
+        )
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS embeddings_context_delete AFTER DELETE ON context BEGIN
+          DELETE FROM embeddings WHERE source = 'context' AND source_id = old.id;
+        END
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS embeddings_decision_delete AFTER DELETE ON decision_log BEGIN
+          DELETE FROM embeddings WHERE source = 'decision' AND source_id = old.id;
+        END
+      `);
+    }
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function getSchemaVersion(db: SqlJsDatabase): number {
+  const result = db.exec('PRAGMA user_version');
+  return Number(result[0]?.values[0]?.[0] ?? 0);
+}
+
+// Migrations that still have to run on a database at the given version
+export function getPendingMigrations(currentVersion: number): Migration[] {
+  return MIGRATIONS.filter(m => m.version > currentVersion);
+}
+
+/**
+ * Bring the database up to SCHEMA_VERSION. Each step runs in its own
+ * transaction together with the user_version bump, so a failing step leaves
+ * the database at the last good version. Throws if the database was written
+ * by a newer server.
+ */
+export function runMigrations(db: SqlJsDatabase): { from: number; to: number; applied: string[] } {
+  const from = getSchemaVersion(db);
+
+  if (from > SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${from} is newer than this server supports (${SCHEMA_VERSION}). Upgrade auracore-mcp.`
+    );
+  }
+
+  const applied: string[] = [];
+  for (const migration of getPendingMigrations(from)) {
+    db.run('BEGIN');
+    try {
+      migration.up(db);
+      db.run(`PRAGMA user_version = ${migration.version}`);
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${error}`);
+    }
+    applied.push(`${migration.version}_${migration.name}`);
+  }
+
+  return { from, to: getSchemaVersion(db), applied };
+}
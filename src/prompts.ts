@@ -0,0 +1,269 @@
+/**
+ * AuraCore MCP - MCP Prompts
+ * Project briefings assembled from the project, its key context, tasks and decisions
+ */
+import { queryAll } from './database';
+import { getProject, getNextTasks, getDecisionHistory } from './tools';
+import { flattenTaskTree, formatProgress } from './hierarchy';
+import { getBlockers } from './scheduler';
+import { PRIORITY_ORDER_SQL } from './search';
+import { scopeCondition, findOverrides, applyOverrides } from './scopes';
+import { Context, ContextScope, Project, Task, TaskProgress } from './types';
+
+// Default size budget for a generated prompt, in characters
+const DEFAULT_PROMPT_BUDGET = 12000;
+const MIN_PROMPT_BUDGET = 1000;
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: { name: string; description: string; required: boolean }[];
+}
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+interface PromptSection {
+  title: string;
+  items: string[];
+  empty?: string;
+}
+
+const COMMON_ARGUMENTS = [
+  { name: 'project_id', description: 'Project ID', required: true },
+  { name: 'max_chars', description: `Size budget in characters (default ${DEFAULT_PROMPT_BUDGET}, or AURACORE_PROMPT_BUDGET)`, required: false }
+];
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'resume_project',
+    description: 'Brief me on a project: overview, critical rules, open tasks and recent decisions.',
+    arguments: COMMON_ARGUMENTS
+  },
+  {
+    name: 'review_conventions',
+    description: 'Review the rules, conventions and patterns that apply to a project before writing code.',
+    arguments: COMMON_ARGUMENTS
+  },
+  {
+    name: 'plan_next_tasks',
+    description: 'Plan the next tasks of a project from what is ready, what is blocked and past decisions.',
+    arguments: COMMON_ARGUMENTS
+  }
+];
+
+export function getPrompt(
+  name: string,
+  args: Record<string, string> = {}
+): { success: boolean; description?: string; messages?: PromptMessage[]; error?: string } {
+  try {
+    const definition = PROMPTS.find(p => p.name === name);
+    if (!definition) {
+      return { success: false, error: `Unknown prompt: ${name}` };
+    }
+    if (!args.project_id) {
+      return { success: false, error: 'Missing required argument: project_id' };
+    }
+
+    const project = getProject(args.project_id);
+    if (!project.success || !project.project) {
+      return { success: false, error: project.error || 'Project not found' };
+    }
+
+    const budget = resolveBudget(args.max_chars);
+    const tasks = flattenTaskTree(project);
+    const context = getScopedContext(project.project);
+    let intro: string;
+    let sections: PromptSection[];
+
+    switch (name) {
+      case 'review_conventions':
+        intro = 'Before writing any code for this project, review the rules below. Point out anything the planned work could violate and ask if a rule is unclear.';
+        sections = [
+          contextSection('Critical and high priority context', getKeyContext(context)),
+          contextSection('Conventions and patterns', getContextByTypes(context, ['convention', 'pattern']))
+        ];
+        break;
+
+      case 'plan_next_tasks':
+        intro = 'Propose a plan for the next work session on this project: pick from the ready tasks, explain what unblocks the blocked ones, and stay consistent with past decisions.';
+        sections = [
+          readyTasksSection(args.project_id),
+          blockedTasksSection(tasks),
+          decisionsSection(args.project_id),
+          contextSection('Critical and high priority context', getKeyContext(context))
+        ];
+        break;
+
+      default:
+        intro = 'Resume work on this project. Summarize where things stand, then continue from the open tasks while respecting the rules and past decisions below.';
+        sections = [
+          contextSection('Critical and high priority context', getKeyContext(context)),
+          openTasksSection(tasks),
+          decisionsSection(args.project_id)
+        ];
+    }
+
+    const text = fitToBudget(`${projectHeader(project.project, project.context_count || 0, project.progress)}\n\n${intro}`, sections, budget);
+
+    return {
+      success: true,
+      description: `${definition.description} (${project.project.name})`,
+      messages: [{ role: 'user', content: { type: 'text', text } }]
+    };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+function resolveBudget(maxChars?: string): number {
+  const requested = Number(maxChars || process.env.AURACORE_PROMPT_BUDGET || DEFAULT_PROMPT_BUDGET);
+  if (!Number.isFinite(requested) || requested <= 0) return DEFAULT_PROMPT_BUDGET;
+  return Math.max(MIN_PROMPT_BUDGET, Math.floor(requested));
+}
+
+/**
+ * Join the header and sections within the budget. Sections that fit in an
+ * equal share are served first, and the room they leave goes to the larger
+ * ones, so one long section cannot crowd out the others.
+ */
+function fitToBudget(header: string, sections: PromptSection[], budget: number): string {
+  const text = truncate(header, budget);
+  const allocation: number[] = new Array(sections.length).fill(0);
+  let remaining = budget - text.length;
+
+  const bySize = sections
+    .map((section, index) => ({ index, need: renderSection(section, Infinity).length }))
+    .sort((a, b) => a.need - b.need);
+
+  bySize.forEach(({ index, need }, position) => {
+    const share = Math.floor(remaining / (bySize.length - position));
+    allocation[index] = Math.min(need, share);
+    remaining -= allocation[index];
+  });
+
+  return text + sections.map((section, index) => renderSection(section, allocation[index])).join('');
+}
+
+// Render a section in at most `room` characters, noting how many items were left out
+function renderSection(section: PromptSection, room: number): string {
+  const omissionReserve = 60;
+  const title = `\n\n## ${section.title}\n`;
+  if (section.items.length === 0) {
+    const body = `${title}\n${section.empty || '_None._'}`;
+    return body.length <= room ? body : '';
+  }
+  if (room < title.length + omissionReserve) return '';
+
+  let body = '';
+  let added = 0;
+  for (const item of section.items) {
+    const reserve = added === section.items.length - 1 ? 0 : omissionReserve;
+    const space = room - title.length - body.length - reserve;
+    // Cut an oversized first item rather than dropping the whole section
+    const line = `\n${added === 0 ? truncate(item, space - 1) : item}`;
+    if (line.length > space || line.length <= 1) break;
+    body += line;
+    added++;
+  }
+
+  const omitted = section.items.length - added;
+  if (omitted > 0) {
+    body += `\n_(${omitted} more omitted to fit the size budget)_`;
+  }
+  return title + body;
+}
+
+function truncate(text: string, max: number): string {
+  if (text.length <= max) return text;
+  return max > 1 ? `${text.slice(0, max - 1)}…` : '';
+}
+
+function projectHeader(project: Project, contextCount: number, progress?: TaskProgress): string {
+  const lines = [`# Project: ${project.name}`, ''];
+  if (project.description) lines.push(project.description, '');
+  lines.push(`- ID: ${project.id}`, `- Type: ${project.type}`, `- Status: ${project.status}`);
+  if (project.workspace_path) lines.push(`- Workspace: ${project.workspace_path}`);
+  if (project.group_name) lines.push(`- Group: ${project.group_name}`);
+  lines.push(`- Context entries: ${contextCount}`);
+  if (progress && progress.total > 0) lines.push(`- Progress: ${formatProgress(progress)}`);
+  return lines.join('\n');
+}
+
+type ScopedContext = Context & { scope: ContextScope };
+
+// The project's own, group and global entries with overrides applied, by priority
+function getScopedContext(project: Project): ScopedContext[] {
+  const layers = scopeCondition('c', { project_id: project.id, group_name: project.group_name });
+  const rows = queryAll<Context>(
+    `SELECT c.* FROM context c WHERE ${layers.sql} ORDER BY ${PRIORITY_ORDER_SQL}, c.updated_at DESC`,
+    layers.params
+  );
+  return applyOverrides(rows, findOverrides(rows));
+}
+
+function getKeyContext(entries: ScopedContext[]): ScopedContext[] {
+  return entries.filter(c => c.priority === 'critical' || c.priority === 'high');
+}
+
+function getContextByTypes(entries: ScopedContext[], types: Context['type'][]): ScopedContext[] {
+  return entries.filter(c => types.includes(c.type) && c.priority !== 'critical' && c.priority !== 'high');
+}
+
+function contextSection(title: string, entries: ScopedContext[]): PromptSection {
+  return {
+    title,
+    items: entries.map(c => {
+      const scope = c.scope === 'group' ? `, group ${c.group_name}` : c.scope === 'global' ? ', global' : '';
+      return `- **${c.name}** (${c.type}, ${c.priority}${scope}): ${c.content}`;
+    }),
+    empty: '_No matching context stored._'
+  };
+}
+
+function formatTask(task: Task): string {
+  const meta = [task.status, task.priority, task.type, task.estimated_time].filter(Boolean).join(', ');
+  const description = task.description ? `: ${task.description}` : '';
+  return `- **${task.title}** (${meta}) [${task.id}]${description}`;
+}
+
+function openTasksSection(tasks: Task[]): PromptSection {
+  const order: Task['status'][] = ['in_progress', 'pending', 'blocked'];
+  const open = tasks
+    .filter(t => order.includes(t.status))
+    .sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status));
+  return { title: 'Open tasks', items: open.map(formatTask), empty: '_No open tasks._' };
+}
+
+function readyTasksSection(project_id: string): PromptSection {
+  const next = getNextTasks(project_id, 50);
+  return { title: 'Ready tasks', items: (next.tasks || []).map(formatTask), empty: '_No task is ready._' };
+}
+
+function blockedTasksSection(tasks: Task[]): PromptSection {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const items: string[] = [];
+  for (const task of tasks) {
+    if (task.status === 'completed') continue;
+    const blockers = getBlockers(task, byId);
+    if (task.status !== 'blocked' && blockers.length === 0) continue;
+    const waitingOn = blockers.length > 0
+      ? ` — waiting on ${blockers.map(b => b.title || b.id).join(', ')}`
+      : ' — marked blocked';
+    items.push(`${formatTask(task)}${waitingOn}`);
+  }
+  return { title: 'Blocked tasks', items, empty: '_Nothing is blocked._' };
+}
+
+function decisionsSection(project_id: string): PromptSection {
+  const history = getDecisionHistory({ project_id, limit: 10 });
+  const items = (history.decisions || []).map(d => {
+    const confidence = d.confidence != null ? `, confidence ${d.confidence}` : '';
+    const reasoning = d.reasoning ? ` — ${d.reasoning}` : '';
+    const outcome = d.was_correct === false ? ` **Turned out wrong${d.outcome_note ? `: ${d.outcome_note}` : ''}.**` : '';
+    return `- [${d.decision_type}${confidence}] ${d.decision}${reasoning} (${d.created_at})${outcome}`;
+  });
+  return { title: 'Recent decisions', items, empty: '_No decisions logged._' };
+}
@@ -0,0 +1,364 @@
+/**
+ * AuraCore MCP - Tool Registry
+ * Each tool's name, description, input schema and handler in one place
+ */
+import { z } from 'zod';
+import {
+  createProject, listProjects, getProject, updateProject, deleteProject,
+  storeContext, queryContext, updateContext, deleteContext, getContextHistory, diffContext,
+  createTask, updateTask, getNextTasks, listTasks, deleteTask,
+  getTaskHistory, getTimeReport,
+  createMilestone, updateMilestone, listMilestones, deleteMilestone,
+  remember, recall, forget, rememberMany, recallMany, listMemory, clearSession, compareAndSet, increment,
+  logDecision, getDecisionHistory, recordOutcome, getDecisionCalibration, linkDecision, getDecisionChain
+} from './tools';
+import { listWorkspaces, switchWorkspace } from './workspaces';
+import { exportBundle, importBundleFrom } from './bundle';
+import { syncWorkspace } from './sync';
+import { buildContextPack } from './contextpack';
+import { semanticSearch } from './semantic';
+import { lintContext } from './duplicates';
+import * as schemas from './schemas';
+import { getPersistenceError, refreshFromDisk, takeSyncConflicts } from './database';
+
+export interface ToolResult {
+  success: boolean;
+  error?: string;
+  [key: string]: unknown;
+}
+
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: S;
+  handler: (args: z.infer<S>) => ToolResult | Promise<ToolResult>;
+}
+
+// Keeps the handler's argument type tied to its schema
+function defineTool<S extends z.ZodTypeAny>(tool: ToolDefinition<S>): ToolDefinition {
+  return tool as unknown as ToolDefinition;
+}
+
+export const TOOLS: ToolDefinition[] = [
+  // ============== PROJECT TOOLS ==============
+  defineTool({
+    name: 'auracore_create_project',
+    description: 'Create a new project to track work. Projects contain tasks and context.',
+    schema: schemas.CreateProjectSchema,
+    handler: (args) => createProject(args)
+  }),
+  defineTool({
+    name: 'auracore_list_projects',
+    description: 'List projects, optionally filtered by status. Paginated with limit/offset; next_offset is null on the last page.',
+    schema: schemas.ListProjectsSchema,
+    handler: (args) => listProjects(args.status, args.limit, args.offset)
+  }),
+  defineTool({
+    name: 'auracore_get_project',
+    description: 'Get detailed project information: milestones and tasks as a tree (subtasks under their parent), progress rolled up at each level, and context count.',
+    schema: schemas.GetProjectSchema,
+    handler: (args) => getProject(args.project_id)
+  }),
+  defineTool({
+    name: 'auracore_update_project',
+    description: 'Update project properties (name, description, status, type, workspace_path).',
+    schema: schemas.UpdateProjectSchema,
+    handler: ({ project_id, ...updates }) => updateProject(project_id, updates)
+  }),
+  defineTool({
+    name: 'auracore_delete_project',
+    description: 'Delete a project with all its tasks and context, or archive it with archive: true. Decisions are kept without the project link.',
+    schema: schemas.DeleteProjectSchema,
+    handler: (args) => deleteProject(args.project_id, args.archive)
+  }),
+
+  // ============== CONTEXT TOOLS ==============
+  defineTool({
+    name: 'auracore_store_context',
+    description: 'Store business context (rules, patterns, conventions, decisions). This helps maintain persistent knowledge across conversations. If similar entries already exist in the same layer, nothing is stored and they are returned as duplicates: call again with on_duplicate (upsert, skip or create).',
+    schema: schemas.StoreContextSchema,
+    handler: (args) => storeContext(args)
+  }),
+  defineTool({
+    name: 'auracore_query_context',
+    description: 'Query stored context by project, type, category, or search term. Use this to retrieve relevant business rules and patterns. Search results are ranked by relevance (BM25 weighted by priority) and include a highlighted snippet. With as_of, returns the entries as they stood at that date (including since-deleted ones).',
+    schema: schemas.QueryContextSchema,
+    handler: (args) => queryContext(args)
+  }),
+  defineTool({
+    name: 'auracore_update_context',
+    description: 'Edit a context entry in place (name, content, type, category, priority, or move it to another project). The entry keeps its ID.',
+    schema: schemas.UpdateContextSchema,
+    handler: (args) => updateContext(args)
+  }),
+  defineTool({
+    name: 'auracore_delete_context',
+    description: 'Delete a context entry by ID.',
+    schema: schemas.DeleteContextSchema,
+    handler: (args) => deleteContext(args.context_id)
+  }),
+  defineTool({
+    name: 'auracore_lint_context',
+    description: 'Report near-duplicate and conflicting context entries seen by a project (its own, its group\'s and global ones): similar content, the same key twice in one layer, similar rules where only one is negated, overrides that repeat the entry they override.',
+    schema: schemas.LintContextSchema,
+    handler: (args) => lintContext(args)
+  }),
+  defineTool({
+    name: 'auracore_semantic_search',
+    description: 'Search context entries and decisions by meaning as well as keywords: finds paraphrases that keyword search misses. Hybrid mode (default) combines the semantic and keyword (BM25) rankings. Needs an embeddings provider (AURACORE_EMBEDDINGS=hash or http), except in keyword mode.',
+    schema: schemas.SemanticSearchSchema,
+    handler: (args) => semanticSearch(args)
+  }),
+  defineTool({
+    name: 'auracore_context_history',
+    description: 'List the revisions of a context entry, oldest first: when it was created, each change, and its deletion. Works for deleted entries.',
+    schema: schemas.ContextHistorySchema,
+    handler: (args) => getContextHistory(args.context_id, args.include_content)
+  }),
+  defineTool({
+    name: 'auracore_context_diff',
+    description: 'Show what changed between two revisions of a context entry: changed fields and a unified diff of the content. Defaults to the latest change.',
+    schema: schemas.ContextDiffSchema,
+    handler: (args) => diffContext(args)
+  }),
+
+  // ============== TASK TOOLS ==============
+  defineTool({
+    name: 'auracore_create_task',
+    description: 'Create a task within a project. Tasks can have dependencies and priorities, a parent task (subtask) and a milestone.',
+    schema: schemas.CreateTaskSchema,
+    handler: (args) => createTask(args)
+  }),
+  defineTool({
+    name: 'auracore_update_task',
+    description: 'Update task status, priority, description, dependencies, parent or milestone. Completing a task with open subtasks is refused unless complete_subtasks is true.',
+    schema: schemas.UpdateTaskSchema,
+    handler: (args) => updateTask(args)
+  }),
+  defineTool({
+    name: 'auracore_get_next_tasks',
+    description: 'Get recommended next tasks for a project. Only returns tasks whose dependencies and subtasks are completed, and lists blocked tasks with what blocks them (dependencies, or open subtasks marked subtask: true).',
+    schema: schemas.GetNextTasksSchema,
+    handler: (args) => getNextTasks(args.project_id, args.limit, args.order)
+  }),
+  defineTool({
+    name: 'auracore_list_tasks',
+    description: 'List the tasks of a project, filtered by status, type or priority. Archived tasks are hidden unless include_archived is set. Paginated with limit/offset.',
+    schema: schemas.ListTasksSchema,
+    handler: (args) => listTasks(args)
+  }),
+  defineTool({
+    name: 'auracore_delete_task',
+    description: 'Delete a task and its subtasks, or archive them with archive: true. Tasks that depended on deleted tasks no longer wait for them; archived tasks keep blocking their dependents.',
+    schema: schemas.DeleteTaskSchema,
+    handler: (args) => deleteTask(args.task_id, args.archive)
+  }),
+
+  defineTool({
+    name: 'auracore_get_task_history',
+    description: 'Get the status changes of a task with their timestamps (created, started, blocked, completed...).',
+    schema: schemas.GetTaskHistorySchema,
+    handler: (args) => getTaskHistory(args.task_id)
+  }),
+  defineTool({
+    name: 'auracore_time_report',
+    description: 'Time report for a project: estimated vs actual time of completed tasks (estimates like "2h", "1d" parsed), cycle time by task type, and how long in-progress tasks have been running, to spot stalled work.',
+    schema: schemas.TimeReportSchema,
+    handler: (args) => getTimeReport(args.project_id, args.stalled_after_hours)
+  }),
+  defineTool({
+    name: 'auracore_task_context',
+    description: 'Context to read before working on a task, within a token budget: critical rules, conventions for the task type, entries matching its title and description, and linked decisions. Items are ranked, say why they were picked, and come as ready-to-use markdown (text).',
+    schema: schemas.TaskContextSchema,
+    handler: (args) => buildContextPack(args)
+  }),
+
+  // ============== MILESTONE TOOLS ==============
+  defineTool({
+    name: 'auracore_create_milestone',
+    description: 'Create a milestone that groups top-level tasks of a project (with their subtasks), optionally with a due date.',
+    schema: schemas.CreateMilestoneSchema,
+    handler: (args) => createMilestone(args)
+  }),
+  defineTool({
+    name: 'auracore_update_milestone',
+    description: 'Rename a milestone or change its description or due date.',
+    schema: schemas.UpdateMilestoneSchema,
+    handler: (args) => updateMilestone(args)
+  }),
+  defineTool({
+    name: 'auracore_list_milestones',
+    description: 'List a project\'s milestones, earliest due first, with percent complete and task counts by status.',
+    schema: schemas.ListMilestonesSchema,
+    handler: (args) => listMilestones(args.project_id)
+  }),
+  defineTool({
+    name: 'auracore_delete_milestone',
+    description: 'Delete a milestone. Its tasks are kept, without a milestone.',
+    schema: schemas.DeleteMilestoneSchema,
+    handler: (args) => deleteMilestone(args.milestone_id)
+  }),
+
+  // ============== MEMORY TOOLS ==============
+  defineTool({
+    name: 'auracore_remember',
+    description: 'Store a key-value pair in session memory. Use this to remember important information during a conversation. Values can be strings or any JSON value.',
+    schema: schemas.RememberSchema,
+    handler: (args) => remember(args)
+  }),
+  defineTool({
+    name: 'auracore_recall',
+    description: 'Recall a value from session memory by key, with its version, expiry and remaining TTL in seconds. Recalling a sliding entry resets its TTL.',
+    schema: schemas.RecallSchema,
+    handler: (args) => recall(args)
+  }),
+  defineTool({
+    name: 'auracore_forget',
+    description: 'Remove a key from session memory.',
+    schema: schemas.ForgetSchema,
+    handler: (args) => forget(args.key, args.session_id)
+  }),
+  defineTool({
+    name: 'auracore_remember_many',
+    description: 'Store several keys in session memory in one call. The batch is atomic: either every key is stored or none is.',
+    schema: schemas.RememberManySchema,
+    handler: (args) => rememberMany(args)
+  }),
+  defineTool({
+    name: 'auracore_recall_many',
+    description: 'Recall several keys in one call. Keys that do not exist or expired are listed in missing.',
+    schema: schemas.RecallManySchema,
+    handler: (args) => recallMany(args)
+  }),
+  defineTool({
+    name: 'auracore_list_memory',
+    description: 'List the keys of a session, optionally filtered by prefix or glob pattern, with their version and remaining TTL. Paginated with limit/offset.',
+    schema: schemas.ListMemorySchema,
+    handler: (args) => listMemory(args)
+  }),
+  defineTool({
+    name: 'auracore_clear_session',
+    description: 'Remove every key of a session.',
+    schema: schemas.ClearSessionSchema,
+    handler: (args) => clearSession(args.session_id)
+  }),
+  defineTool({
+    name: 'auracore_compare_and_set',
+    description: 'Write a key only if its version is still the one you read (0 if it must not exist yet). Safe for agents coordinating through session memory: on a mismatch nothing is written and the current value is returned.',
+    schema: schemas.CompareAndSetSchema,
+    handler: (args) => compareAndSet(args)
+  }),
+  defineTool({
+    name: 'auracore_increment',
+    description: 'Atomically add to a numeric key (creating it from initial if missing) and return the new value.',
+    schema: schemas.IncrementSchema,
+    handler: (args) => increment(args)
+  }),
+
+  // ============== DECISION LOG TOOLS ==============
+  defineTool({
+    name: 'auracore_log_decision',
+    description: 'Log a decision made during development. Helps track reasoning and prevent hallucinations by recording what was decided and why. Can supersede or amend an earlier decision and link the tasks and context it affects.',
+    schema: schemas.LogDecisionSchema,
+    handler: (args) => logDecision(args)
+  }),
+  defineTool({
+    name: 'auracore_get_decisions',
+    description: 'Get decision history for a project. Use this to review past decisions and maintain consistency. Superseded decisions are hidden unless include_superseded is set. Filter by type, date range, confidence band, outcome, or linked task/context.',
+    schema: schemas.GetDecisionsSchema,
+    handler: (args) => getDecisionHistory(args)
+  }),
+  defineTool({
+    name: 'auracore_get_decision_chain',
+    description: 'Show the full history of a decision: the original, every decision that amended or superseded it, oldest first, and which one is current.',
+    schema: schemas.GetDecisionChainSchema,
+    handler: (args) => getDecisionChain(args.decision_id)
+  }),
+  defineTool({
+    name: 'auracore_link_decision',
+    description: 'Link a decision to the tasks and context entries it affects, or remove links.',
+    schema: schemas.LinkDecisionSchema,
+    handler: (args) => linkDecision(args)
+  }),
+  defineTool({
+    name: 'auracore_record_outcome',
+    description: 'Record whether a logged decision turned out right, with a follow-up note.',
+    schema: schemas.RecordOutcomeSchema,
+    handler: (args) => recordOutcome(args)
+  }),
+  defineTool({
+    name: 'auracore_decision_calibration',
+    description: 'Calibration report per decision type: accuracy of decisions with a recorded outcome compared with the confidence stated when they were logged (gap, Brier score, per-confidence bins).',
+    schema: schemas.DecisionCalibrationSchema,
+    handler: ({ bins, ...filters }) => getDecisionCalibration(filters, bins)
+  }),
+
+  // ============== WORKSPACE TOOLS ==============
+  defineTool({
+    name: 'auracore_list_workspaces',
+    description: 'List named workspaces (separate databases, e.g. one per client engagement) and show which one is open.',
+    schema: schemas.ListWorkspacesSchema,
+    handler: () => listWorkspaces()
+  }),
+  defineTool({
+    name: 'auracore_switch_workspace',
+    description: 'Switch to another database: a named workspace, the .auracore/ store of a repository, or the store next to a project\'s workspace_path. Pending changes are saved first. Not available over HTTP, where all clients share one database.',
+    schema: schemas.SwitchWorkspaceSchema,
+    handler: (args) => switchWorkspace(args)
+  }),
+
+  // ============== BUNDLE TOOLS ==============
+  defineTool({
+    name: 'auracore_export_bundle',
+    description: 'Export a project (context, tasks, decisions) or the global context as a portable, versioned JSON or YAML bundle, returned or written to a file.',
+    schema: schemas.ExportBundleSchema,
+    handler: (args) => exportBundle(args)
+  }),
+  defineTool({
+    name: 'auracore_import_bundle',
+    description: 'Import a bundle made by auracore_export_bundle. IDs are remapped; records that already exist by name are skipped (merge) or the target is cleared first (replace).',
+    schema: schemas.ImportBundleSchema,
+    handler: (args) => importBundleFrom(args)
+  }),
+
+  // ============== WORKSPACE SYNC TOOLS ==============
+  defineTool({
+    name: 'auracore_sync_workspace',
+    description: 'Sync context entries from the markdown files in a project\'s workspace (docs/conventions and docs/adr by default). Front-matter sets type, category and priority; edited files update their entry and deleted files remove it. Optionally keeps watching the files.',
+    schema: schemas.SyncWorkspaceSchema,
+    handler: (args) => syncWorkspace(args)
+  })
+];
+
+export function findTool(name: string): ToolDefinition | undefined {
+  return TOOLS.find(tool => tool.name === name);
+}
+
+/**
+ * Validate the arguments against the tool's schema and run it. Invalid
+ * arguments never reach the handler; the caller gets field-level errors.
+ */
+export async function callTool(name: string, args: unknown): Promise<ToolResult> {
+  const tool = findTool(name);
+  if (!tool) {
+    return { success: false, error: `Unknown tool: ${name}` };
+  }
+
+  const parsed = schemas.parseArgs(tool.schema, args);
+  if (!parsed.success) {
+    return { success: false, error: `Invalid arguments for ${name}`, field_errors: parsed.errors };
+  }
+
+  // Another server process may have written since the last request
+  refreshFromDisk();
+  const result = await tool.handler(parsed.data);
+
+  // The change is in memory either way; tell the caller if it is not on disk
+  const persistenceError = getPersistenceError();
+  const conflicts = takeSyncConflicts();
+  return {
+    ...result,
+    ...(persistenceError ? { persistence_error: persistenceError } : {}),
+    ...(conflicts.length > 0 ? { sync_conflicts: conflicts } : {})
+  };
+}
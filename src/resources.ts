@@ -0,0 +1,246 @@
+/**
+ * AuraCore MCP - MCP Resources
+ * Exposes projects, their tasks and context entries as readable markdown
+ */
+import { queryAll, queryOne } from './database';
+import { getProject } from './tools';
+import { getBlockers } from './scheduler';
+import { flattenTaskTree, formatProgress } from './hierarchy';
+import { DataChange } from './changes';
+import { Project, Context, Task } from './types';
+
+const SCHEME = 'auracore://';
+const MARKDOWN = 'text/markdown';
+
+export interface ResourceEntry {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${SCHEME}project/{project_id}`,
+    name: 'Project overview',
+    description: 'Project details with a task summary',
+    mimeType: MARKDOWN
+  },
+  {
+    uriTemplate: `${SCHEME}project/{project_id}/tasks`,
+    name: 'Project tasks',
+    description: 'Tasks of a project grouped by status, with blocking dependencies',
+    mimeType: MARKDOWN
+  },
+  {
+    uriTemplate: `${SCHEME}context/{context_id}`,
+    name: 'Context entry',
+    description: 'A stored business rule, pattern, convention, glossary entry or document',
+    mimeType: MARKDOWN
+  }
+];
+
+export const projectUri = (id: string) => `${SCHEME}project/${id}`;
+export const projectTasksUri = (id: string) => `${SCHEME}project/${id}/tasks`;
+export const contextUri = (id: string) => `${SCHEME}context/${id}`;
+
+export function listResources(): { success: boolean; resources?: ResourceEntry[]; error?: string } {
+  try {
+    const resources: ResourceEntry[] = [];
+
+    const projects = queryAll<Project>('SELECT id, name, description FROM projects ORDER BY updated_at DESC');
+    for (const project of projects) {
+      resources.push({
+        uri: projectUri(project.id),
+        name: `Project: ${project.name}`,
+        description: project.description || undefined,
+        mimeType: MARKDOWN
+      });
+      resources.push({
+        uri: projectTasksUri(project.id),
+        name: `Tasks: ${project.name}`,
+        mimeType: MARKDOWN
+      });
+    }
+
+    const entries = queryAll<Context>('SELECT id, type, name FROM context ORDER BY updated_at DESC');
+    for (const entry of entries) {
+      resources.push({
+        uri: contextUri(entry.id),
+        name: `${entry.type}: ${entry.name}`,
+        mimeType: MARKDOWN
+      });
+    }
+
+    return { success: true, resources };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+export function readResource(uri: string): { success: boolean; contents?: ResourceContents; error?: string } {
+  try {
+    let text: string | undefined;
+    let match: RegExpMatchArray | null;
+
+    if ((match = uri.match(/^auracore:\/\/project\/([^/]+)\/tasks$/))) {
+      text = renderProjectTasks(decodeURIComponent(match[1]));
+    } else if ((match = uri.match(/^auracore:\/\/project\/([^/]+)$/))) {
+      text = renderProject(decodeURIComponent(match[1]));
+    } else if ((match = uri.match(/^auracore:\/\/context\/([^/]+)$/))) {
+      text = renderContext(decodeURIComponent(match[1]));
+    } else {
+      return { success: false, error: `Unknown resource URI: ${uri}` };
+    }
+
+    if (text === undefined) {
+      return { success: false, error: `Resource not found: ${uri}` };
+    }
+    return { success: true, contents: { uri, mimeType: MARKDOWN, text } };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+// Resources whose content a change affects, and whether the list itself changed
+export function resourcesForChange(change: DataChange): { updated: string[]; listChanged: boolean } {
+  const listChanged = change.action !== 'updated';
+
+  switch (change.entity) {
+    case 'project':
+      return { updated: [projectUri(change.id), projectTasksUri(change.id)], listChanged };
+    case 'context':
+      return {
+        updated: change.project_id ? [contextUri(change.id), projectUri(change.project_id)] : [contextUri(change.id)],
+        listChanged
+      };
+    case 'task':
+      return {
+        updated: change.project_id ? [projectUri(change.project_id), projectTasksUri(change.project_id)] : [],
+        listChanged: false
+      };
+    case 'decision':
+      // No resource shows decisions
+      return { updated: [], listChanged: false };
+    case 'workspace':
+      // Every resource now comes from another database
+      return { updated: [], listChanged: true };
+  }
+}
+
+// ============== MARKDOWN RENDERING ==============
+
+const STATUS_ORDER: Task['status'][] = ['in_progress', 'pending', 'blocked', 'completed'];
+
+const STATUS_LABEL: Record<Task['status'], string> = {
+  in_progress: 'In progress',
+  pending: 'Pending',
+  blocked: 'Blocked',
+  completed: 'Completed'
+};
+
+function renderProject(project_id: string): string | undefined {
+  const result = getProject(project_id);
+  if (!result.success || !result.project) return undefined;
+
+  const { project, progress, milestones = [], context_count = 0 } = result;
+  const lines = [`# ${project.name}`, ''];
+
+  if (project.description) lines.push(project.description, '');
+
+  lines.push(
+    `- **ID:** ${project.id}`,
+    `- **Type:** ${project.type}`,
+    `- **Status:** ${project.status}`
+  );
+  if (project.workspace_path) lines.push(`- **Workspace:** ${project.workspace_path}`);
+  if (project.group_name) lines.push(`- **Group:** ${project.group_name}`);
+  lines.push(`- **Context entries:** ${context_count}`, `- **Updated:** ${project.updated_at}`, '');
+
+  lines.push('## Tasks', '');
+  if (!progress || progress.total === 0) {
+    lines.push('_No tasks yet._');
+  } else {
+    lines.push(`Progress: ${formatProgress(progress)}`, '');
+    for (const status of STATUS_ORDER) {
+      const count = progress.by_status[status];
+      if (count > 0) lines.push(`- ${STATUS_LABEL[status]}: ${count}`);
+    }
+    lines.push('', `See ${projectTasksUri(project.id)} for details.`);
+  }
+
+  if (milestones.length > 0) {
+    lines.push('', '## Milestones', '');
+    for (const milestone of milestones) {
+      const due = milestone.due_date ? `, due ${milestone.due_date}` : '';
+      lines.push(`- **${milestone.name}**${due}: ${formatProgress(milestone.progress)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function renderProjectTasks(project_id: string): string | undefined {
+  const result = getProject(project_id);
+  if (!result.success || !result.project) return undefined;
+
+  const tasks = flattenTaskTree(result);
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const lines = [`# Tasks: ${result.project.name}`, ''];
+
+  if (tasks.length === 0) {
+    lines.push('_No tasks yet._');
+    return lines.join('\n');
+  }
+
+  for (const status of STATUS_ORDER) {
+    const group = tasks.filter(t => t.status === status);
+    if (group.length === 0) continue;
+
+    lines.push(`## ${STATUS_LABEL[status]}`, '');
+    for (const task of group) {
+      const check = task.status === 'completed' ? 'x' : ' ';
+      const meta = [task.priority, task.type, task.estimated_time].filter(Boolean).join(', ');
+      lines.push(`- [${check}] **${task.title}** (${meta}) — \`${task.id}\``);
+      if (task.description) lines.push(`  ${task.description}`);
+      const parent = task.parent_id ? byId.get(task.parent_id) : undefined;
+      if (parent) lines.push(`  Subtask of: ${parent.title}`);
+
+      const blockers = task.status === 'completed' ? [] : getBlockers(task, byId);
+      if (blockers.length > 0) {
+        lines.push(`  Blocked by: ${blockers.map(b => b.title ? `${b.title} (${b.status})` : `${b.id} (${b.status})`).join(', ')}`);
+      }
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+function renderContext(context_id: string): string | undefined {
+  const entry = queryOne<Context>('SELECT * FROM context WHERE id = ?', [context_id]);
+  if (!entry) return undefined;
+
+  const scope = entry.project_id
+    ? queryOne<Project>('SELECT name FROM projects WHERE id = ?', [entry.project_id])?.name || entry.project_id
+    : entry.group_name ? `group ${entry.group_name}` : 'global';
+
+  const lines = [
+    `# ${entry.name}`,
+    '',
+    `- **Type:** ${entry.type}`,
+    `- **Priority:** ${entry.priority}`,
+    `- **Scope:** ${scope}`
+  ];
+  if (entry.category) lines.push(`- **Category:** ${entry.category}`);
+  if (entry.key) lines.push(`- **Key:** ${entry.key}`);
+  lines.push(`- **Updated:** ${entry.updated_at}`, '', entry.content);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,214 @@
+/**
+ * AuraCore MCP - Task Dependency Scheduler
+ * Builds the depends_on graph of a project and decides which tasks are ready
+ */
+import { Task } from './types';
+
+// Task as stored in SQLite: depends_on is a JSON-encoded array
+export type TaskRow = Omit<Task, 'depends_on'> & { depends_on?: string | null };
+
+export interface TaskBlocker {
+  id: string;
+  title?: string;
+  status: Task['status'] | 'missing' | 'archived';
+  subtask?: boolean;    // An open subtask rather than a dependency
+}
+
+export interface BlockedTask {
+  task_id: string;
+  title: string;
+  blocked_by: TaskBlocker[];
+}
+
+const PRIORITY_RANK: Record<Task['priority'], number> = {
+  critical: 1,
+  high: 2,
+  medium: 3,
+  low: 4
+};
+
+// Parse the depends_on column, tolerating NULL and malformed values
+export function parseDependsOn(raw: unknown): string[] {
+  if (Array.isArray(raw)) return raw.filter((id): id is string => typeof id === 'string');
+  if (typeof raw !== 'string' || raw.length === 0) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// Convert a database row into the public Task shape
+export function toTask(row: TaskRow): Task {
+  return { ...row, depends_on: parseDependsOn(row.depends_on) } as Task;
+}
+
+// Adjacency map: task id -> ids it depends on
+export function buildGraph(tasks: Task[]): Map<string, string[]> {
+  const graph = new Map<string, string[]>();
+  for (const task of tasks) {
+    graph.set(task.id, task.depends_on || []);
+  }
+  return graph;
+}
+
+/**
+ * Return the first dependency cycle found in the graph as a list of task ids
+ * (first id repeated at the end), or null if the graph is acyclic.
+ */
+export function findCycle(graph: Map<string, string[]>): string[] | null {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    const current = state.get(id);
+    if (current === 'done') return null;
+    if (current === 'visiting') {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const dep of graph.get(id) || []) {
+      if (!graph.has(dep)) continue;
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const id of graph.keys()) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Check a proposed depends_on list for a task against the rest of its project.
+ * Returns an error message, or null if the dependencies are valid.
+ */
+export function validateDependencies(task_id: string, depends_on: string[], projectTasks: Task[]): string | null {
+  const known = new Set(projectTasks.map(t => t.id));
+
+  if (depends_on.includes(task_id)) {
+    return 'A task cannot depend on itself';
+  }
+
+  const unknown = depends_on.filter(id => !known.has(id));
+  if (unknown.length > 0) {
+    return `Unknown task IDs in depends_on: ${unknown.join(', ')}`;
+  }
+
+  const graph = buildGraph(projectTasks);
+  graph.set(task_id, depends_on);
+
+  const cycle = findCycle(graph);
+  if (cycle) {
+    return `Dependency cycle detected: ${cycle.join(' -> ')}`;
+  }
+
+  return null;
+}
+
+// List the dependencies of a task that are not completed yet (archived before completion included)
+export function getBlockers(task: Task, byId: Map<string, Task>): TaskBlocker[] {
+  const blockers: TaskBlocker[] = [];
+  for (const depId of task.depends_on || []) {
+    const dep = byId.get(depId);
+    if (!dep) {
+      blockers.push({ id: depId, status: 'missing' });
+    } else if (dep.status !== 'completed') {
+      blockers.push({ id: dep.id, title: dep.title, status: dep.archived_at ? 'archived' : dep.status });
+    }
+  }
+  return blockers;
+}
+
+// Subtasks not yet completed, by parent: a parent cannot be completed before them
+export function openSubtasksByParent(tasks: Task[]): Map<string, TaskBlocker[]> {
+  const byParent = new Map<string, TaskBlocker[]>();
+  for (const task of tasks) {
+    if (!task.parent_id || task.status === 'completed') continue;
+    const blockers = byParent.get(task.parent_id) || [];
+    blockers.push({ id: task.id, title: task.title, status: task.status, subtask: true });
+    byParent.set(task.parent_id, blockers);
+  }
+  return byParent;
+}
+
+/**
+ * Length of the longest chain of open tasks that waits on each task (the task
+ * itself included). Tasks at the head of long chains unblock the most work.
+ */
+export function computeChainLengths(openTasks: Task[]): Map<string, number> {
+  const dependents = new Map<string, string[]>();
+  for (const task of openTasks) {
+    for (const dep of task.depends_on || []) {
+      if (!dependents.has(dep)) dependents.set(dep, []);
+      dependents.get(dep)!.push(task.id);
+    }
+  }
+
+  const lengths = new Map<string, number>();
+  const measure = (id: string): number => {
+    const cached = lengths.get(id);
+    if (cached !== undefined) return cached;
+    // Placeholder guards against cycles that slipped past validation
+    lengths.set(id, 1);
+    let longest = 0;
+    for (const child of dependents.get(id) || []) {
+      longest = Math.max(longest, measure(child));
+    }
+    lengths.set(id, longest + 1);
+    return longest + 1;
+  };
+
+  for (const task of openTasks) measure(task.id);
+  return lengths;
+}
+
+// Longest chain of open tasks, in the order they must be done
+export function findCriticalPath(openTasks: Task[], chainLengths: Map<string, number>): string[] {
+  const openIds = new Set(openTasks.map(t => t.id));
+  const dependents = new Map<string, string[]>();
+  for (const task of openTasks) {
+    for (const dep of task.depends_on || []) {
+      if (!openIds.has(dep)) continue;
+      if (!dependents.has(dep)) dependents.set(dep, []);
+      dependents.get(dep)!.push(task.id);
+    }
+  }
+
+  let head: string | undefined;
+  for (const task of openTasks) {
+    if (head === undefined || (chainLengths.get(task.id) || 0) > (chainLengths.get(head) || 0)) {
+      head = task.id;
+    }
+  }
+
+  const path: string[] = [];
+  const seen = new Set<string>();
+  while (head !== undefined && !seen.has(head)) {
+    path.push(head);
+    seen.add(head);
+    let next: string | undefined;
+    for (const child of dependents.get(head) || []) {
+      if (next === undefined || (chainLengths.get(child) || 0) > (chainLengths.get(next) || 0)) {
+        next = child;
+      }
+    }
+    head = next;
+  }
+  return path;
+}
+
+// Default ordering: priority first, then oldest first
+export function compareByPriority(a: Task, b: Task): number {
+  const rank = (PRIORITY_RANK[a.priority] || 5) - (PRIORITY_RANK[b.priority] || 5);
+  if (rank !== 0) return rank;
+  return a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : 0;
+}
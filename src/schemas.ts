@@ -0,0 +1,425 @@
+/**
+ * AuraCore MCP - Tool Input Schemas (zod)
+ * Single source for argument validation and the JSON Schema shown in tools/list
+ */
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { MemoryValue as MemoryValueType } from './types';
+
+// ============== SHARED FIELDS ==============
+
+export const ProjectType = z.enum(['feature', 'bugfix', 'refactor', 'spike', 'maintenance']);
+export const ProjectStatus = z.enum(['active', 'paused', 'completed', 'archived']);
+export const ContextType = z.enum(['business_rule', 'pattern', 'convention', 'glossary', 'document', 'decision']);
+export const Priority = z.enum(['critical', 'high', 'medium', 'low']);
+export const TaskStatus = z.enum(['pending', 'in_progress', 'completed', 'blocked']);
+export const TaskType = z.enum(['setup', 'implementation', 'testing', 'documentation']);
+
+const id = (description: string) => z.string().trim().min(1, 'Must not be empty').describe(description);
+const text = (description: string) => z.string().trim().min(1, 'Must not be empty').describe(description);
+// Clients sometimes send numbers and booleans as strings ("5", "true"); accept both
+const count = (description: string) => z.coerce.number().int().positive().describe(description);
+const offset = () => z.coerce.number().int().min(0).describe('Number of results to skip; pass the previous next_offset to get the next page');
+// Any JSON value; arguments arrive as JSON, so only a missing value is invalid
+const MemoryValue = z.custom<MemoryValueType>(v => v !== undefined, { message: 'Required' });
+const sessionId = () => z.string().min(1).describe('Session ID (optional, default: "default")');
+const ttlMinutes = () => z.coerce.number().positive().describe('Time to live in minutes (optional, no expiry if not set)');
+const timestamp = (description: string) => z.string()
+  .refine(v => !Number.isNaN(Date.parse(v)), 'Must be an ISO date or timestamp')
+  .describe(description);
+const confidence = (description: string) => z.coerce.number().min(0).max(1).describe(description);
+const flag = (description: string) => z.preprocess(
+  v => v === 'true' ? true : v === 'false' ? false : v,
+  z.boolean()
+).describe(description);
+
+// ============== PROJECT TOOLS ==============
+
+export const CreateProjectSchema = z.object({
+  name: text('Project name'),
+  description: z.string().optional().describe('Project description'),
+  type: ProjectType.optional().describe('Project type'),
+  workspace_path: z.string().optional().describe('Path to workspace directory'),
+  group_name: z.string().optional().describe('Group or team whose context the project inherits')
+});
+
+export const ListProjectsSchema = z.object({
+  status: ProjectStatus.optional().describe('Filter by status'),
+  limit: count('Max results (default 50)').optional(),
+  offset: offset().optional()
+});
+
+export const GetProjectSchema = z.object({
+  project_id: id('Project ID')
+});
+
+export const UpdateProjectSchema = z.object({
+  project_id: id('Project ID'),
+  name: text('New name').optional(),
+  description: z.string().optional().describe('New description'),
+  status: ProjectStatus.optional(),
+  type: ProjectType.optional(),
+  workspace_path: z.string().optional().describe('New workspace directory path (empty string clears it)'),
+  group_name: z.string().optional().describe('New group or team (empty string clears it)')
+});
+
+export const DeleteProjectSchema = z.object({
+  project_id: id('Project ID'),
+  archive: flag('Archive instead of deleting: sets status "archived" and keeps tasks and context').optional()
+});
+
+// ============== CONTEXT TOOLS ==============
+
+export const StoreContextSchema = z.object({
+  project_id: id('Associate with project (optional for global context)').optional(),
+  group_name: id('Associate with a group or team instead of a project; its projects inherit the entry').optional(),
+  key: id('Override key: replaces entries of lower layers (global < group < project) with the same key. Defaults to the name').optional(),
+  type: ContextType.describe('Context type'),
+  name: text('Context name/title'),
+  content: text('Context content (detailed description)'),
+  category: z.string().optional().describe('Category for organization'),
+  priority: Priority.optional().describe('Priority level'),
+  on_duplicate: z.enum(['upsert', 'skip', 'create']).optional()
+    .describe('When similar entries exist in the same layer: upsert updates the closest, skip keeps it, create adds a new entry anyway. Without it, nothing is stored and the duplicates are returned')
+});
+
+export const LintContextSchema = z.object({
+  project_id: id('Project: checks its entries together with those of its group and global ones').optional(),
+  group_name: id('Group layer to check (default: the project\'s group; without project or group, global entries only)').optional(),
+  threshold: z.coerce.number().min(0).max(1).optional()
+    .describe('Content similarity (0-1) from which two entries count as duplicates (default 0.7)')
+});
+
+export const QueryContextSchema = z.object({
+  project_id: id('Project: returns its entries merged with those of its group and global ones').optional(),
+  group_name: id('Group layer to merge in (default: the project\'s group)').optional(),
+  include_shadowed: flag('Also return entries overridden by a higher layer, marked with shadowed_by (default: false)').optional(),
+  type: ContextType.optional(),
+  category: z.string().optional().describe('Filter by category'),
+  search: z.string().optional().describe('Full-text search in name, content and category. Supports "exact phrases", prefix* terms and OR'),
+  as_of: timestamp('Return entries as they stood at this date or time (e.g. "2026-03-01"); search then matches every term as plain text').optional(),
+  limit: count('Max results (default 20)').optional(),
+  offset: offset().optional()
+});
+
+export const UpdateContextSchema = z.object({
+  context_id: id('Context ID'),
+  name: text('New name/title').optional(),
+  content: text('New content').optional(),
+  type: ContextType.optional(),
+  category: z.string().nullable().optional().describe('New category (null or empty string clears it)'),
+  priority: Priority.optional(),
+  project_id: id('Move to this project').nullable().optional().describe('Move to this project, or null for global context'),
+  group_name: id('Move to this group').nullable().optional().describe('Move to this group (leaving its project), or null to leave the group'),
+  key: id('New override key').nullable().optional().describe('New override key, or null to override by name')
+});
+
+export const DeleteContextSchema = z.object({
+  context_id: id('Context ID to delete')
+});
+
+export const SemanticSearchSchema = z.object({
+  query: text('What to look for, in plain words'),
+  project_id: id('Search this project\'s merged context (with its group and global entries) and its decisions').optional(),
+  sources: z.array(z.enum(['context', 'decision'])).optional().describe('What to search (default: both)'),
+  mode: z.enum(['hybrid', 'semantic', 'keyword']).optional()
+    .describe('hybrid (default) merges the semantic and keyword rankings; semantic or keyword uses one of them'),
+  semantic_weight: z.coerce.number().min(0).max(1).optional()
+    .describe('Share of the semantic ranking in hybrid mode, from 0 to 1 (default 0.5)'),
+  limit: count('Max results (default 10)').optional()
+});
+
+export const ContextHistorySchema = z.object({
+  context_id: id('Context ID (also works for deleted entries)'),
+  include_content: flag('Include the content of every revision (default: false)').optional()
+});
+
+export const ContextDiffSchema = z.object({
+  context_id: id('Context ID (also works for deleted entries)'),
+  from_revision: count('Older revision (default: the one before to_revision)').optional(),
+  to_revision: count('Newer revision (default: the latest)').optional()
+});
+
+// ============== TASK TOOLS ==============
+
+export const CreateTaskSchema = z.object({
+  project_id: id('Project ID'),
+  title: text('Task title'),
+  description: z.string().optional().describe('Task description'),
+  priority: Priority.optional(),
+  type: TaskType.optional(),
+  depends_on: z.array(z.string().min(1)).optional().describe('Task IDs this depends on'),
+  estimated_time: z.string().optional().describe('Estimated time (e.g., "2h", "1d")'),
+  parent_id: id('Make this a subtask of that task (same project)').optional(),
+  milestone_id: id('Milestone of a top-level task (subtasks use their parent\'s)').optional()
+});
+
+export const UpdateTaskSchema = z.object({
+  task_id: id('Task ID'),
+  status: TaskStatus.optional(),
+  priority: Priority.optional(),
+  description: z.string().optional().describe('Updated description'),
+  depends_on: z.array(z.string().min(1)).optional().describe('Replace the task IDs this depends on (empty array clears them)'),
+  parent_id: id('Move under this parent task').nullable().optional().describe('Move under this parent task, or null to make it a top-level task'),
+  milestone_id: id('Milestone').nullable().optional().describe('Milestone of a top-level task (its subtasks follow), or null to remove it'),
+  complete_subtasks: flag('When completing a task with open subtasks, complete them too (otherwise the update is refused)').optional()
+});
+
+export const GetTaskHistorySchema = z.object({
+  task_id: id('Task ID')
+});
+
+export const TimeReportSchema = z.object({
+  project_id: id('Project ID'),
+  stalled_after_hours: z.coerce.number().positive().optional()
+    .describe('Flag in-progress tasks as stalled after this many hours (default 48); tasks past their estimate are always flagged')
+});
+
+export const TaskContextSchema = z.object({
+  task_id: id('Task ID'),
+  max_tokens: count('Token budget for the returned context (default 2000)').optional()
+});
+
+export const CreateMilestoneSchema = z.object({
+  project_id: id('Project ID'),
+  name: text('Milestone name'),
+  description: z.string().optional().describe('What the milestone delivers'),
+  due_date: timestamp('Due date (ISO date)').optional()
+});
+
+export const UpdateMilestoneSchema = z.object({
+  milestone_id: id('Milestone ID'),
+  name: text('New name').optional(),
+  description: z.string().optional().describe('New description'),
+  due_date: timestamp('New due date (ISO date)').nullable().optional().describe('New due date (ISO date), or null to clear it')
+});
+
+export const ListMilestonesSchema = z.object({
+  project_id: id('Project ID')
+});
+
+export const DeleteMilestoneSchema = z.object({
+  milestone_id: id('Milestone ID')
+});
+
+export const GetNextTasksSchema = z.object({
+  project_id: id('Project ID'),
+  limit: count('Max tasks to return (default 3)').optional(),
+  order: z.enum(['priority', 'critical_path']).optional()
+    .describe('Ranking: by priority (default) or by longest chain of work each task unblocks')
+});
+
+export const ListTasksSchema = z.object({
+  project_id: id('Project ID'),
+  status: TaskStatus.optional().describe('Filter by status'),
+  type: TaskType.optional().describe('Filter by type'),
+  priority: Priority.optional().describe('Filter by priority'),
+  include_archived: flag('Include archived tasks (default false)').optional(),
+  limit: count('Max results (default 50)').optional(),
+  offset: offset().optional()
+});
+
+export const DeleteTaskSchema = z.object({
+  task_id: id('Task ID'),
+  archive: flag('Archive instead of deleting: hides the task but keeps its row').optional()
+});
+
+// ============== MEMORY TOOLS ==============
+
+const MemoryEntryFields = z.object({
+  key: text('Memory key'),
+  value: MemoryValue.describe('Value to remember: a string, or any JSON value (returned typed on recall)'),
+  ttl_minutes: ttlMinutes().optional(),
+  sliding: flag('Sliding expiry: each recall resets the TTL (requires ttl_minutes)').optional()
+});
+
+const slidingNeedsTtl = (args: { sliding?: boolean; ttl_minutes?: number }) => !args.sliding || args.ttl_minutes !== undefined;
+const SLIDING_NEEDS_TTL = { message: 'sliding requires ttl_minutes', path: ['sliding'] };
+
+export const RememberSchema = MemoryEntryFields.extend({
+  session_id: sessionId().optional()
+}).refine(slidingNeedsTtl, SLIDING_NEEDS_TTL);
+
+export const RememberManySchema = z.object({
+  entries: z.array(MemoryEntryFields.refine(slidingNeedsTtl, SLIDING_NEEDS_TTL)).min(1, 'Provide at least one entry')
+    .describe('Keys to store, each with its own value and optional TTL'),
+  session_id: sessionId().optional()
+});
+
+export const RecallManySchema = z.object({
+  keys: z.array(z.string().min(1)).min(1, 'Provide at least one key').describe('Keys to recall'),
+  session_id: sessionId().optional()
+});
+
+export const ListMemorySchema = z.object({
+  session_id: sessionId().optional(),
+  prefix: z.string().optional().describe('Only keys starting with this prefix'),
+  pattern: z.string().optional().describe('Only keys matching this glob (* any run, ? one character, [abc] a set; case-sensitive)'),
+  include_values: flag('Include values (default false)').optional(),
+  limit: count('Max results (default 100)').optional(),
+  offset: offset().optional()
+});
+
+export const ClearSessionSchema = z.object({
+  session_id: sessionId().optional()
+});
+
+export const CompareAndSetSchema = MemoryEntryFields.extend({
+  expected_version: z.coerce.number().int().min(0)
+    .describe('Version last read with recall (0: the key must not exist yet). The write fails if the key changed since.'),
+  session_id: sessionId().optional()
+}).refine(slidingNeedsTtl, SLIDING_NEEDS_TTL);
+
+export const IncrementSchema = z.object({
+  key: text('Memory key holding a number'),
+  by: z.coerce.number().optional().describe('Amount to add (default 1, negative to decrement)'),
+  initial: z.coerce.number().optional().describe('Starting value when the key does not exist (default 0)'),
+  ttl_minutes: ttlMinutes().optional().describe('Reset the TTL (the current expiry is kept if not set)'),
+  session_id: sessionId().optional()
+});
+
+export const RecallSchema = z.object({
+  key: text('Memory key'),
+  session_id: z.string().min(1).optional().describe('Session ID (optional)')
+});
+
+export const ForgetSchema = z.object({
+  key: text('Memory key to forget'),
+  session_id: z.string().min(1).optional().describe('Session ID (optional)')
+});
+
+// ============== DECISION LOG TOOLS ==============
+
+export const LogDecisionSchema = z.object({
+  project_id: id('Associated project').optional(),
+  decision_type: text('Type of decision (e.g., "architecture", "implementation", "refactor")'),
+  input_context: z.string().optional().describe('Context that led to this decision'),
+  decision: text('The decision made'),
+  confidence: confidence('Confidence level 0-1').optional(),
+  reasoning: z.string().optional().describe('Reasoning behind the decision'),
+  supersedes: id('ID of an earlier decision this one replaces (it is then hidden from history)').optional(),
+  amends: id('ID of an earlier decision this one refines without replacing it').optional(),
+  task_ids: z.array(z.string().min(1)).optional().describe('IDs of the tasks this decision affects'),
+  context_ids: z.array(z.string().min(1)).optional().describe('IDs of the context entries this decision affects')
+}).refine(
+  args => !(args.supersedes && args.amends),
+  { message: 'A decision either supersedes or amends another, not both', path: ['amends'] }
+);
+
+export const LinkDecisionSchema = z.object({
+  decision_id: id('Decision ID'),
+  task_ids: z.array(z.string().min(1)).optional().describe('Task IDs to link'),
+  context_ids: z.array(z.string().min(1)).optional().describe('Context IDs to link'),
+  remove_task_ids: z.array(z.string().min(1)).optional().describe('Task IDs to unlink'),
+  remove_context_ids: z.array(z.string().min(1)).optional().describe('Context IDs to unlink')
+});
+
+export const GetDecisionChainSchema = z.object({
+  decision_id: id('Any decision of the chain')
+});
+
+const DecisionFilterFields = z.object({
+  project_id: id('Filter by project').optional(),
+  decision_type: z.string().min(1).optional().describe('Filter by decision type'),
+  since: timestamp('Only decisions logged at or after this date (e.g. "2026-01-01")').optional(),
+  until: timestamp('Only decisions logged before this date').optional(),
+  min_confidence: confidence('Minimum stated confidence').optional(),
+  max_confidence: confidence('Maximum stated confidence').optional()
+});
+
+export const GetDecisionsSchema = DecisionFilterFields.extend({
+  outcome: z.enum(['correct', 'incorrect', 'unknown']).optional()
+    .describe('Filter by recorded outcome ("unknown": no outcome recorded yet)'),
+  task_id: id('Only decisions linked to this task').optional(),
+  context_id: id('Only decisions linked to this context entry').optional(),
+  include_superseded: flag('Include decisions that were superseded by a later one (default false)').optional(),
+  limit: count('Max results (default 10)').optional(),
+  offset: offset().optional()
+});
+
+export const RecordOutcomeSchema = z.object({
+  decision_id: id('Decision ID'),
+  was_correct: flag('Whether the decision turned out right'),
+  note: z.string().optional().describe('Follow-up note: what happened, what was learned')
+});
+
+export const DecisionCalibrationSchema = DecisionFilterFields.extend({
+  bins: z.coerce.number().int().min(1).max(20).optional().describe('Number of confidence bins (default 5)')
+});
+
+// ============== WORKSPACE TOOLS ==============
+
+export const ListWorkspacesSchema = z.object({});
+
+export const SwitchWorkspaceSchema = z.object({
+  name: z.string().optional().describe('Named workspace to open ("default" is the main database)'),
+  repo_path: z.string().optional().describe('Repository path: opens the closest .auracore/ store at or above it'),
+  project_id: id('Open the .auracore/ store next to this project\'s workspace_path').optional(),
+  create: flag('Create the workspace or .auracore/ store if it does not exist').optional()
+}).refine(
+  args => [args.name, args.repo_path, args.project_id].filter(v => v !== undefined).length === 1,
+  { message: 'Provide exactly one of name, repo_path or project_id' }
+);
+
+// ============== BUNDLE TOOLS ==============
+
+export const ExportBundleSchema = z.object({
+  project_id: id('Project to export (omit to export the global context and decisions)').optional(),
+  format: z.enum(['json', 'yaml']).optional().describe('Bundle format (default json, or from the path extension)'),
+  path: z.string().min(1).optional().describe('Write the bundle to this file instead of returning it; must be under the project\'s workspace_path or the data directory, relative paths start from the first')
+});
+
+export const ImportBundleSchema = z.object({
+  path: z.string().min(1).optional().describe('Bundle file to import (JSON or YAML); must be under the workspace_path of project_id or the data directory, relative paths start from the first'),
+  content: z.string().min(1).optional().describe('Bundle text to import (JSON or YAML)'),
+  mode: z.enum(['merge', 'replace']).optional()
+    .describe('merge (default): keep existing records, skip bundle records with the same name; replace: delete the target\'s context, tasks and decisions first'),
+  project_id: id('Import into this project (default: the project with the bundle\'s name, or a new one)').optional()
+}).refine(
+  args => (args.path === undefined) !== (args.content === undefined),
+  { message: 'Provide exactly one of path or content' }
+);
+
+// ============== WORKSPACE SYNC ==============
+
+export const SyncWorkspaceSchema = z.object({
+  project_id: id('Project whose workspace_path to scan'),
+  dirs: z.array(z.string().min(1)).optional()
+    .describe('Directories to scan for markdown files, relative to workspace_path (default: docs/conventions and docs/adr)'),
+  watch: z.boolean().optional()
+    .describe('true: keep re-syncing when the files change; false: stop watching; omit to leave watching as is')
+});
+
+// ============== HELPERS ==============
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// JSON Schema for tools/list, generated from the zod schema
+export function toInputSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, unknown>;
+  return jsonSchema;
+}
+
+/**
+ * Validate and coerce tool arguments. On failure, returns one error per
+ * offending field (dotted path, "(root)" for the arguments object itself).
+ */
+export function parseArgs<S extends z.ZodTypeAny>(
+  schema: S,
+  args: unknown
+): { success: true; data: z.infer<S> } | { success: false; errors: FieldError[] } {
+  const result = schema.safeParse(args ?? {});
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.issues.map(issue => ({
+      field: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+      message: issue.message
+    }))
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * AuraCore MCP - Context Scopes
+ * Global, group and project layers of context, and overrides between them
+ */
+import { Context, ContextScope } from './types';
+
+const LAYER: Record<ContextScope, number> = { global: 0, group: 1, project: 2 };
+
+export type ScopedEntry = Pick<Context, 'id' | 'name'> & {
+  project_id?: string | null;
+  group_name?: string | null;
+  key?: string | null;
+};
+
+export interface ScopeLayers {
+  project_id?: string;
+  group_name?: string | null;
+}
+
+export function scopeOf(entry: Pick<ScopedEntry, 'project_id' | 'group_name'>): ContextScope {
+  if (entry.project_id) return 'project';
+  return entry.group_name ? 'group' : 'global';
+}
+
+// What an entry overrides: its key if it has one, else its name (case and spacing ignored)
+export function overrideKey(entry: Pick<ScopedEntry, 'name' | 'key'>): string {
+  return (entry.key || entry.name).trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * SQL condition on alias for the entries seen from the given layers: the
+ * project's own, those of the group and the global ones. Works on context and
+ * context_revisions, which share the columns.
+ */
+export function scopeCondition(alias: string, layers: ScopeLayers): { sql: string; params: any[] } {
+  const shared = layers.group_name
+    ? { sql: `(${alias}.group_name IS NULL OR ${alias}.group_name = ?)`, params: [layers.group_name] }
+    : { sql: `${alias}.group_name IS NULL`, params: [] };
+  const inherited = `(${alias}.project_id IS NULL AND ${shared.sql})`;
+  return layers.project_id
+    ? { sql: `(${alias}.project_id = ? OR ${inherited})`, params: [layers.project_id, ...shared.params] }
+    : { sql: inherited, params: shared.params };
+}
+
+/**
+ * For each entry overridden by one from a higher layer with the same override
+ * key, the ID of the entry that wins (from the highest layer). Entries of the
+ * same layer never override each other.
+ */
+export function findOverrides(entries: ScopedEntry[]): Map<string, string> {
+  const winners = new Map<string, ScopedEntry>();
+  for (const entry of entries) {
+    const key = overrideKey(entry);
+    const current = winners.get(key);
+    if (!current || LAYER[scopeOf(entry)] > LAYER[scopeOf(current)]) winners.set(key, entry);
+  }
+
+  const overrides = new Map<string, string>();
+  for (const entry of entries) {
+    const winner = winners.get(overrideKey(entry))!;
+    if (LAYER[scopeOf(winner)] > LAYER[scopeOf(entry)]) overrides.set(entry.id, winner.id);
+  }
+  return overrides;
+}
+
+/**
+ * Tag each row with the layer it comes from and drop the overridden ones,
+ * or keep them marked with shadowed_by when includeShadowed is set.
+ */
+export function applyOverrides<T extends ScopedEntry>(
+  rows: T[],
+  overrides: Map<string, string>,
+  includeShadowed: boolean = false
+): (T & { scope: ContextScope; shadowed_by?: string })[] {
+  return rows
+    .filter(row => includeShadowed || !overrides.has(row.id))
+    .map(row => {
+      const shadowedBy = overrides.get(row.id);
+      return { ...row, scope: scopeOf(row), ...(shadowedBy ? { shadowed_by: shadowedBy } : {}) };
+    });
+}
@@ -0,0 +1,99 @@
+/**
+ * AuraCore MCP - Context Search
+ * BM25 ranking over the context_fts (FTS4) index, weighted by priority
+ */
+import { Context } from './types';
+
+// Relevance multiplier applied on top of the text score
+export const PRIORITY_WEIGHT: Record<Context['priority'], number> = {
+  critical: 2.0,
+  high: 1.5,
+  medium: 1.0,
+  low: 0.75
+};
+
+// SQL ordering expression: critical first, low last
+export const PRIORITY_ORDER_SQL = `CASE priority
+  WHEN 'critical' THEN 1
+  WHEN 'high' THEN 2
+  WHEN 'medium' THEN 3
+  WHEN 'low' THEN 4
+  ELSE 5
+END`;
+
+// Per-column weights, in context_fts column order (name, content, category)
+const COLUMN_WEIGHTS = [3.0, 1.0, 0.5];
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Markers wrapped around matched terms in snippets
+export const HIGHLIGHT_START = '**';
+export const HIGHLIGHT_END = '**';
+
+/**
+ * Turn free text into a safe FTS4 MATCH expression.
+ * Supports "exact phrases", prefix* terms and OR between terms; every other
+ * operator character is dropped so user input can never be a syntax error.
+ * Returns null when nothing searchable is left.
+ */
+export function buildMatchQuery(search: string): string | null {
+  const parts: string[] = [];
+  const pattern = /"([^"]*)"|([\p{L}\p{N}_]+\*?)/gu;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(search)) !== null) {
+    if (match[1] !== undefined) {
+      const words = match[1].match(/[\p{L}\p{N}_]+/gu);
+      if (words) parts.push(`"${words.join(' ').toLowerCase()}"`);
+    } else if (match[2] === 'OR') {
+      parts.push('OR');
+    } else {
+      parts.push(match[2].toLowerCase());
+    }
+  }
+
+  // OR needs a term on both sides
+  const cleaned = parts.filter((part, i) =>
+    part !== 'OR' || (i > 0 && i < parts.length - 1 && parts[i - 1] !== 'OR')
+  );
+
+  return cleaned.length > 0 ? cleaned.join(' ') : null;
+}
+
+/**
+ * Okapi BM25 computed from FTS4 matchinfo(..., 'pcnalx').
+ * Layout: p, c, n, a[c], l[c], then x[3 * c * p] hit counts.
+ */
+export function bm25(matchInfo: Uint8Array): number {
+  // Copy so the Uint32Array view is always aligned
+  const info = new Uint32Array(new Uint8Array(matchInfo).buffer);
+  const phraseCount = info[0];
+  const columnCount = info[1];
+  const totalDocs = info[2];
+  const avgLengthOffset = 3;
+  const lengthOffset = avgLengthOffset + columnCount;
+  const hitsOffset = lengthOffset + columnCount;
+
+  let score = 0;
+  for (let phrase = 0; phrase < phraseCount; phrase++) {
+    for (let column = 0; column < columnCount; column++) {
+      const base = hitsOffset + 3 * (phrase * columnCount + column);
+      const termFreq = info[base];
+      if (termFreq === 0) continue;
+
+      const docsWithHits = info[base + 2];
+      const idf = Math.log((totalDocs - docsWithHits + 0.5) / (docsWithHits + 0.5) + 1);
+      const avgLength = info[avgLengthOffset + column] || 1;
+      const norm = 1 - BM25_B + BM25_B * (info[lengthOffset + column] / avgLength);
+      const weight = COLUMN_WEIGHTS[column] ?? 1;
+
+      score += weight * idf * (termFreq * (BM25_K1 + 1)) / (termFreq + BM25_K1 * norm);
+    }
+  }
+  return score;
+}
+
+export function rankScore(matchInfo: Uint8Array, priority: Context['priority']): number {
+  const weighted = bm25(matchInfo) * (PRIORITY_WEIGHT[priority] ?? 1);
+  return Math.round(weighted * 10000) / 10000;
+}
@@ -0,0 +1,300 @@
+/**
+ * AuraCore MCP - Semantic Search
+ * Vector index over context entries and decisions, and hybrid (semantic + keyword) search
+ */
+import { createHash } from 'crypto';
+import { queryAll, queryOne, runAndSave } from './database';
+import { onDataChange } from './changes';
+import { nowIso } from './clock';
+import { getEmbeddingProvider, cosine } from './embeddings';
+import { buildMatchQuery, rankScore } from './search';
+import { scopeCondition, findOverrides, applyOverrides } from './scopes';
+import { Context, ContextScope, DecisionLog, Project } from './types';
+
+export type SemanticSource = 'context' | 'decision';
+export type SearchMode = 'hybrid' | 'semantic' | 'keyword';
+
+// Texts sent to the provider per request
+const EMBED_BATCH_SIZE = 32;
+const INDEX_DEBOUNCE_MS = 500;
+// Reciprocal rank fusion constant: damps the gap between the first ranks
+const RRF_K = 60;
+// Below this cosine similarity an item is not a semantic match
+const MIN_SIMILARITY = 0.1;
+export const DEFAULT_SEMANTIC_WEIGHT = 0.5;
+
+interface IndexedDocument {
+  source: SemanticSource;
+  id: string;
+  text: string;
+}
+
+export interface SemanticSearchInput {
+  query: string;
+  project_id?: string;
+  sources?: SemanticSource[];
+  mode?: SearchMode;
+  semantic_weight?: number;       // Share of the semantic rank in hybrid mode (0-1)
+  limit?: number;
+}
+
+export interface SemanticSearchResult {
+  source: SemanticSource;
+  id: string;
+  title: string;                  // Context name, or the decision text
+  type: string;                   // Context type, or decision_type
+  priority?: Context['priority'];
+  scope?: ContextScope;
+  project_id: string | null;
+  content: string;
+  score: number;
+  similarity: number | null;      // Cosine similarity to the query; null without a vector
+  semantic_rank: number | null;
+  keyword_rank: number | null;
+}
+
+// What gets embedded for each source
+function documentText(source: SemanticSource, row: Record<string, any>): string {
+  return source === 'context'
+    ? [row.name, row.category, row.content].filter(Boolean).join('\n')
+    : [row.decision_type, row.decision, row.reasoning, row.input_context].filter(Boolean).join('\n');
+}
+
+function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function toVector(blob: Uint8Array): Float32Array {
+  // Copy so the Float32Array view is always aligned
+  return new Float32Array(new Uint8Array(blob).buffer);
+}
+
+function allDocuments(): IndexedDocument[] {
+  const context = queryAll<Context>('SELECT id, name, category, content FROM context')
+    .map(row => ({ source: 'context' as const, id: row.id, text: documentText('context', row) }));
+  const decisions = queryAll<DecisionLog>('SELECT id, decision_type, decision, reasoning, input_context FROM decision_log')
+    .map(row => ({ source: 'decision' as const, id: row.id, text: documentText('decision', row) }));
+  return [...context, ...decisions];
+}
+
+let indexing: Promise<number> | null = null;
+
+/**
+ * Embed every entry and decision that has no vector yet, changed since it
+ * was embedded, or was embedded by another provider. Calls made while an
+ * update runs share it. Returns the number of vectors written.
+ */
+export function refreshEmbeddings(): Promise<number> {
+  if (!indexing) {
+    indexing = embedStale().finally(() => { indexing = null; });
+  }
+  return indexing;
+}
+
+async function embedStale(): Promise<number> {
+  const provider = getEmbeddingProvider();
+  if (!provider) return 0;
+
+  const stored = new Map(
+    queryAll<{ source: string; source_id: string; provider: string; content_hash: string }>(
+      'SELECT source, source_id, provider, content_hash FROM embeddings'
+    ).map(row => [`${row.source}:${row.source_id}`, row])
+  );
+  const stale = allDocuments()
+    .map(doc => ({ ...doc, hash: contentHash(doc.text) }))
+    .filter(doc => {
+      const existing = stored.get(`${doc.source}:${doc.id}`);
+      return !existing || existing.provider !== provider.id || existing.content_hash !== doc.hash;
+    });
+
+  let written = 0;
+  for (let start = 0; start < stale.length; start += EMBED_BATCH_SIZE) {
+    const batch = stale.slice(start, start + EMBED_BATCH_SIZE);
+    const vectors = await provider.embed(batch.map(doc => doc.text));
+    batch.forEach((doc, i) => {
+      const table = doc.source === 'context' ? 'context' : 'decision_log';
+      // The row may have been deleted while the provider was working
+      runAndSave(
+        `INSERT OR REPLACE INTO embeddings (source, source_id, provider, content_hash, vector, updated_at)
+         SELECT ?, ?, ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM ${table} WHERE id = ?)`,
+        [doc.source, doc.id, provider.id, doc.hash, new Uint8Array(new Float32Array(vectors[i]).buffer), nowIso(), doc.id]
+      );
+      written++;
+    });
+  }
+  return written;
+}
+
+let stopIndexer: (() => void) | null = null;
+
+/**
+ * Keep the index current in the background: embed what changed shortly
+ * after context entries or decisions are written, and everything stale at
+ * start. Does nothing when no provider is configured.
+ */
+export function startEmbeddingIndexer(): void {
+  if (stopIndexer || !getEmbeddingProvider()) return;
+
+  let timer: NodeJS.Timeout | null = null;
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      refreshEmbeddings().catch(error => console.error(`Embedding update failed: ${String(error)}`));
+    }, INDEX_DEBOUNCE_MS);
+    timer.unref();
+  };
+
+  const unsubscribe = onDataChange(change => {
+    if (change.entity === 'context' || change.entity === 'decision' || change.entity === 'workspace') schedule();
+  });
+  stopIndexer = () => {
+    unsubscribe();
+    if (timer) clearTimeout(timer);
+    stopIndexer = null;
+  };
+  schedule();
+}
+
+export function stopEmbeddingIndexer(): void {
+  stopIndexer?.();
+}
+
+// ============== SEARCH ==============
+
+// Context in scope: a project's merged view (overridden entries left out), or every entry
+function contextCandidates(project_id?: string): SemanticSearchResult[] {
+  let rows: (Context & { scope: ContextScope })[];
+  if (project_id) {
+    const project = queryOne<Project>('SELECT group_name FROM projects WHERE id = ?', [project_id]);
+    const layers = scopeCondition('c', { project_id, group_name: project?.group_name });
+    const scoped = queryAll<Context>(`SELECT c.* FROM context c WHERE ${layers.sql}`, layers.params);
+    rows = applyOverrides(scoped, findOverrides(scoped));
+  } else {
+    rows = applyOverrides(queryAll<Context>('SELECT * FROM context'), new Map());
+  }
+  return rows.map(row => ({
+    source: 'context', id: row.id, title: row.name, type: row.type, priority: row.priority, scope: row.scope,
+    project_id: row.project_id ?? null, content: row.content,
+    score: 0, similarity: null, semantic_rank: null, keyword_rank: null
+  }));
+}
+
+// Decisions of the project and global ones, leaving out those superseded by a newer decision
+function decisionCandidates(project_id?: string): SemanticSearchResult[] {
+  const rows = queryAll<DecisionLog>(
+    `SELECT d.* FROM decision_log d
+     WHERE NOT EXISTS (SELECT 1 FROM decision_log n WHERE n.related_decision_id = d.id AND n.relation = 'supersedes')
+       ${project_id ? 'AND (d.project_id = ? OR d.project_id IS NULL)' : ''}`,
+    project_id ? [project_id] : []
+  );
+  return rows.map(row => ({
+    source: 'decision', id: row.id, title: row.decision, type: row.decision_type,
+    project_id: row.project_id ?? null, content: row.reasoning ? `${row.decision}\n${row.reasoning}` : row.decision,
+    score: 0, similarity: null, semantic_rank: null, keyword_rank: null
+  }));
+}
+
+// Keyword relevance: BM25 for context entries, share of query words found for decisions
+function keywordScores(query: string, candidates: SemanticSearchResult[]): Map<string, number> {
+  const scores = new Map<string, number>();
+  const terms = [...new Set((query.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || []).filter(term => term.length >= 2))];
+  if (terms.length === 0) return scores;
+
+  const contextIds = new Set(candidates.filter(c => c.source === 'context').map(c => c.id));
+  const match = buildMatchQuery(terms.join(' OR '));
+  if (match && contextIds.size > 0) {
+    const rows = queryAll<{ id: string; priority: Context['priority']; match_info: Uint8Array }>(
+      `SELECT c.id, c.priority, matchinfo(context_fts, 'pcnalx') AS match_info
+       FROM context_fts JOIN context c ON c.rowid = context_fts.docid
+       WHERE context_fts MATCH ?`,
+      [match]
+    );
+    for (const row of rows) {
+      if (contextIds.has(row.id)) scores.set(`context:${row.id}`, rankScore(row.match_info, row.priority));
+    }
+  }
+
+  for (const candidate of candidates.filter(c => c.source === 'decision')) {
+    const text = `${candidate.type} ${candidate.content}`.toLowerCase();
+    const found = terms.filter(term => text.includes(term)).length;
+    if (found > 0) scores.set(`decision:${candidate.id}`, found / terms.length);
+  }
+  return scores;
+}
+
+// 1-based rank of each key by descending score
+function ranks(scores: Map<string, number>): Map<string, number> {
+  return new Map([...scores.entries()].sort((a, b) => b[1] - a[1]).map(([key], index) => [key, index + 1]));
+}
+
+/**
+ * Search context entries and decisions by meaning, keywords or both. Hybrid
+ * mode merges the two rankings by reciprocal rank fusion, so an item found
+ * by both comes first; semantic_weight shifts the balance. The index is
+ * brought up to date before searching.
+ */
+export async function semanticSearch(input: SemanticSearchInput): Promise<{
+  success: boolean;
+  mode?: SearchMode;
+  provider?: string | null;
+  results?: SemanticSearchResult[];
+  error?: string;
+}> {
+  try {
+    const mode = input.mode || 'hybrid';
+    const provider = getEmbeddingProvider();
+    if (!provider && mode !== 'keyword') {
+      return { success: false, error: 'Semantic search is off: start the server with AURACORE_EMBEDDINGS=hash (local) or http (model server), or use mode "keyword"' };
+    }
+
+    const sources = input.sources && input.sources.length > 0 ? input.sources : ['context', 'decision'];
+    const candidates = [
+      ...(sources.includes('context') ? contextCandidates(input.project_id) : []),
+      ...(sources.includes('decision') ? decisionCandidates(input.project_id) : [])
+    ];
+    const keyOf = (c: SemanticSearchResult) => `${c.source}:${c.id}`;
+
+    const similarities = new Map<string, number>();
+    if (provider && mode !== 'keyword') {
+      await refreshEmbeddings();
+      const [queryVector] = await provider.embed([input.query]);
+      const wanted = new Set(candidates.map(keyOf));
+      const stored = queryAll<{ source: string; source_id: string; vector: Uint8Array }>(
+        'SELECT source, source_id, vector FROM embeddings WHERE provider = ?',
+        [provider.id]
+      );
+      for (const row of stored) {
+        const key = `${row.source}:${row.source_id}`;
+        if (!wanted.has(key)) continue;
+        similarities.set(key, Math.round(cosine(queryVector, toVector(row.vector)) * 10000) / 10000);
+      }
+    }
+
+    const semanticRanks = ranks(new Map([...similarities].filter(([, similarity]) => similarity >= MIN_SIMILARITY)));
+    const keywordRanks = mode === 'semantic' ? new Map<string, number>() : ranks(keywordScores(input.query, candidates));
+    const weight = mode === 'semantic' ? 1 : mode === 'keyword' ? 0 : input.semantic_weight ?? DEFAULT_SEMANTIC_WEIGHT;
+
+    const results = candidates
+      .map(candidate => {
+        const key = keyOf(candidate);
+        const semanticRank = semanticRanks.get(key) ?? null;
+        const keywordRank = keywordRanks.get(key) ?? null;
+        const score = (semanticRank ? weight / (RRF_K + semanticRank) : 0) + (keywordRank ? (1 - weight) / (RRF_K + keywordRank) : 0);
+        return {
+          ...candidate,
+          score: Math.round(score * 1e6) / 1e6,
+          similarity: similarities.get(key) ?? null,
+          semantic_rank: semanticRank,
+          keyword_rank: keywordRank
+        };
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score || (b.similarity ?? 0) - (a.similarity ?? 0))
+      .slice(0, input.limit || 10);
+
+    return { success: true, mode, provider: provider?.id ?? null, results };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
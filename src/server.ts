@@ -0,0 +1,141 @@
+/**
+ * AuraCore MCP - Server
+ * The MCP request handlers, shared by the stdio and HTTP transports
+ */
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema, ListToolsRequestSchema,
+  ListResourcesRequestSchema, ListResourceTemplatesRequestSchema, ReadResourceRequestSchema,
+  SubscribeRequestSchema, UnsubscribeRequestSchema,
+  ListPromptsRequestSchema, GetPromptRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { refreshFromDisk } from './database';
+import { TOOLS, findTool, callTool } from './registry';
+import { toInputSchema } from './schemas';
+import { listResources, readResource, resourcesForChange, RESOURCE_TEMPLATES } from './resources';
+import { onDataChange } from './changes';
+import { PROMPTS, getPrompt } from './prompts';
+
+/**
+ * Create an MCP server with every tool, resource and prompt handler. A server
+ * talks to one transport, so the HTTP transport creates one per client; they
+ * all share the process's database.
+ */
+export function createServer(): Server {
+  const server = new Server(
+    {
+      name: 'auracore-mcp',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+      },
+    }
+  );
+
+  // List available tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: TOOLS.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: toInputSchema(tool.schema)
+      }))
+    };
+  });
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    if (!findTool(name)) {
+      return {
+        content: [{ type: 'text', text: `Unknown tool: ${name}` }],
+        isError: true
+      };
+    }
+
+    try {
+      const result = await callTool(name, args);
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: !result.success
+      };
+
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Error: ${error}` }],
+        isError: true
+      };
+    }
+  });
+
+  // ============== RESOURCES ==============
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    refreshFromDisk();
+    const result = listResources();
+    if (!result.success) throw new Error(result.error);
+    return { resources: result.resources! };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    refreshFromDisk();
+    const result = readResource(request.params.uri);
+    if (!result.success) throw new Error(result.error);
+    return { contents: [result.contents!] };
+  });
+
+  // URIs this client asked to be notified about
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Forward data changes made by tools (from any client) as resource notifications
+  const unsubscribe = onDataChange((change) => {
+    const { updated, listChanged } = resourcesForChange(change);
+    for (const uri of updated) {
+      if (subscriptions.has(uri)) {
+        server.sendResourceUpdated({ uri }).catch(() => {});
+      }
+    }
+    if (listChanged) {
+      server.sendResourceListChanged().catch(() => {});
+    }
+  });
+
+  // ============== PROMPTS ==============
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    refreshFromDisk();
+    const result = getPrompt(request.params.name, request.params.arguments);
+    if (!result.success) throw new Error(result.error);
+    return { description: result.description, messages: result.messages! };
+  });
+
+  // Stop notifying once the client is gone
+  server.onclose = unsubscribe;
+
+  return server;
+}
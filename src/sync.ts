@@ -0,0 +1,342 @@
+/**
+ * AuraCore MCP - Workspace Markdown Sync
+ * Mirrors markdown files of a project's workspace (conventions, ADRs) into context entries
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import YAML from 'yaml';
+import { v4 as uuidv4 } from 'uuid';
+import { queryAll, queryOne, runAndSave, refreshFromDisk, getDbPath } from './database';
+import { emitDataChange } from './changes';
+import { nowIso } from './clock';
+import { isInsideDir } from './config';
+import { ContextType, Priority } from './schemas';
+import { Context, Project } from './types';
+
+// Scanned when the caller names no directories, relative to workspace_path
+export const DEFAULT_SYNC_DIRS = ['docs/conventions', 'docs/adr'];
+// Marks entries owned by the sync in context.metadata
+const SOURCE = 'workspace';
+const WATCH_DEBOUNCE_MS = 300;
+
+// Context type of files whose front-matter does not say, by directory name
+const TYPE_BY_DIR: Record<string, Context['type']> = {
+  adr: 'decision',
+  adrs: 'decision',
+  decisions: 'decision',
+  conventions: 'convention',
+  patterns: 'pattern',
+  rules: 'business_rule',
+  glossary: 'glossary'
+};
+
+export interface SyncMetadata {
+  source: typeof SOURCE;
+  path: string;       // Relative to the workspace, with forward slashes
+  hash: string;       // sha256 of the file
+  synced_at: string;
+}
+
+export interface SyncReport {
+  project_id: string;
+  workspace_path: string;
+  dirs: string[];
+  created: string[];
+  updated: string[];
+  deleted: string[];
+  unchanged: number;
+  warnings: { path: string; message: string }[];
+  watching: boolean;
+}
+
+interface ParsedDocument {
+  type: Context['type'];
+  name: string;
+  content: string;
+  category: string | null;
+  priority: Context['priority'];
+  warnings: string[];
+}
+
+const watchers = new Map<string, { watchers: fs.FSWatcher[]; timer: NodeJS.Timeout | null }>();
+
+/**
+ * Split YAML front-matter from the body and map it onto context fields.
+ * Unknown or invalid values fall back to defaults with a warning.
+ */
+export function parseMarkdownDocument(text: string, relPath: string): ParsedDocument {
+  const warnings: string[] = [];
+  let front: Record<string, unknown> = {};
+  let body = text.replace(/^﻿/, '');
+
+  const match = body.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (match) {
+    try {
+      const parsed = YAML.parse(match[1]);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        front = parsed as Record<string, unknown>;
+      } else if (parsed != null) {
+        warnings.push('Front-matter is not a mapping; ignored');
+      }
+    } catch (error) {
+      warnings.push(`Invalid front-matter: ${String(error)}`);
+    }
+    body = body.slice(match[0].length);
+  }
+  body = body.trim();
+
+  const dirs = path.posix.dirname(relPath).split('/').reverse();
+  const defaultType = dirs.map(dir => TYPE_BY_DIR[dir.toLowerCase()]).find(Boolean) || 'document';
+
+  let type: Context['type'] = defaultType;
+  if (front.type !== undefined) {
+    const parsed = ContextType.safeParse(front.type);
+    if (parsed.success) type = parsed.data;
+    else warnings.push(`Unknown type "${String(front.type)}", using "${defaultType}"`);
+  }
+
+  let priority: Context['priority'] = 'medium';
+  if (front.priority !== undefined) {
+    const parsed = Priority.safeParse(front.priority);
+    if (parsed.success) priority = parsed.data;
+    else warnings.push(`Unknown priority "${String(front.priority)}", using "medium"`);
+  }
+
+  const heading = body.match(/^#\s+(.+)$/m)?.[1].trim();
+  const name = [front.name, front.title, heading].find((v): v is string => typeof v === 'string' && v.trim().length > 0)
+    || path.posix.basename(relPath, path.posix.extname(relPath));
+
+  return {
+    type,
+    name: name.trim(),
+    content: body || name,
+    category: typeof front.category === 'string' && front.category.trim() ? front.category.trim() : null,
+    priority,
+    warnings
+  };
+}
+
+function listMarkdownFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith('.')) files.push(...listMarkdownFiles(full));
+    } else if (entry.isFile() && /\.(md|markdown)$/i.test(entry.name)) {
+      files.push(full);
+    }
+  }
+  return files;
+}
+
+function readMetadata(raw: unknown): SyncMetadata | null {
+  if (typeof raw !== 'string') return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && parsed.source === SOURCE && typeof parsed.path === 'string' ? parsed as SyncMetadata : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Bring the project's synced context entries in line with the markdown files
+ * under dirs: new files are inserted, changed files (by content hash) update
+ * their entry, and entries whose file is gone are deleted. Entries that did
+ * not come from the workspace are never touched.
+ */
+export function syncWorkspace(input: { project_id: string; dirs?: string[]; watch?: boolean }): {
+  success: boolean;
+  report?: SyncReport;
+  error?: string;
+} {
+  try {
+    const project = queryOne<Project>('SELECT * FROM projects WHERE id = ?', [input.project_id]);
+    if (!project) {
+      return { success: false, error: 'Project not found' };
+    }
+    if (!project.workspace_path) {
+      return { success: false, error: 'Project has no workspace_path; set it with auracore_update_project' };
+    }
+
+    const root = path.resolve(project.workspace_path);
+    if (!fs.existsSync(root)) {
+      return { success: false, error: `Workspace not found: ${root}` };
+    }
+
+    const dirs = input.dirs && input.dirs.length > 0 ? input.dirs : DEFAULT_SYNC_DIRS;
+    const outside = dirs.filter(dir => !isInsideDir(root, path.resolve(root, dir)));
+    if (outside.length > 0) {
+      return { success: false, error: `Directories must be inside the workspace (${root}): ${outside.join(', ')}` };
+    }
+    const report = runSync(project.id, root, dirs);
+
+    if (input.watch === true) {
+      startWatching(project.id, root, dirs);
+    } else if (input.watch === false) {
+      stopWatching(project.id);
+    }
+    report.watching = watchers.has(project.id);
+
+    return { success: true, report };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+function runSync(project_id: string, root: string, dirs: string[]): SyncReport {
+  const report: SyncReport = {
+    project_id, workspace_path: root, dirs, created: [], updated: [], deleted: [], unchanged: 0, warnings: [], watching: false
+  };
+
+  // Entries previously synced for this project, by file path
+  const synced = new Map<string, { id: string; meta: SyncMetadata }>();
+  for (const row of queryAll<{ id: string; metadata: string | null }>('SELECT id, metadata FROM context WHERE project_id = ?', [project_id])) {
+    const meta = readMetadata(row.metadata);
+    if (meta) synced.set(meta.path, { id: row.id, meta });
+  }
+
+  const seen = new Set<string>();
+  for (const dir of dirs) {
+    const absDir = path.resolve(root, dir);
+    if (!fs.existsSync(absDir) || !fs.statSync(absDir).isDirectory()) continue;
+
+    for (const file of listMarkdownFiles(absDir)) {
+      const relPath = path.relative(root, file).split(path.sep).join('/');
+      if (seen.has(relPath)) continue;
+      seen.add(relPath);
+
+      const text = fs.readFileSync(file, 'utf8');
+      const hash = createHash('sha256').update(text).digest('hex');
+      const existing = synced.get(relPath);
+      if (existing && existing.meta.hash === hash) {
+        report.unchanged++;
+        continue;
+      }
+
+      const doc = parseMarkdownDocument(text, relPath);
+      for (const message of doc.warnings) report.warnings.push({ path: relPath, message });
+
+      const now = nowIso();
+      const metadata = JSON.stringify({ source: SOURCE, path: relPath, hash, synced_at: now } satisfies SyncMetadata);
+      if (existing) {
+        runAndSave(
+          `UPDATE context SET type = ?, name = ?, content = ?, category = ?, priority = ?, metadata = ?, updated_at = ? WHERE id = ?`,
+          [doc.type, doc.name, doc.content, doc.category, doc.priority, metadata, now, existing.id]
+        );
+        emitDataChange({ entity: 'context', action: 'updated', id: existing.id, project_id });
+        report.updated.push(relPath);
+      } else {
+        const id = uuidv4();
+        runAndSave(
+          `INSERT INTO context (id, project_id, type, name, content, category, priority, metadata, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [id, project_id, doc.type, doc.name, doc.content, doc.category, doc.priority, metadata, now, now]
+        );
+        emitDataChange({ entity: 'context', action: 'created', id, project_id });
+        report.created.push(relPath);
+      }
+    }
+  }
+
+  // Only entries under the scanned directories can have been deleted
+  const scanned = dirs.map(dir => path.relative(root, path.resolve(root, dir)).split(path.sep).join('/'));
+  for (const [relPath, { id }] of synced) {
+    if (seen.has(relPath)) continue;
+    if (!scanned.some(dir => dir === '' || relPath.startsWith(`${dir}/`))) continue;
+    runAndSave('DELETE FROM context WHERE id = ?', [id]);
+    emitDataChange({ entity: 'context', action: 'deleted', id, project_id });
+    report.deleted.push(relPath);
+  }
+
+  return report;
+}
+
+// ============== WATCH MODE ==============
+
+/**
+ * Re-sync whenever a file changes under the directories. Bursts of events
+ * (editors write several times per save) are debounced into one sync.
+ */
+function startWatching(project_id: string, root: string, dirs: string[]): void {
+  stopWatching(project_id);
+
+  const state: { watchers: fs.FSWatcher[]; timer: NodeJS.Timeout | null } = { watchers: [], timer: null };
+  const dbPath = getDbPath();
+  const trigger = () => {
+    if (state.timer) clearTimeout(state.timer);
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      // The project lives in the database that was open when watching started
+      if (getDbPath() !== dbPath) {
+        stopWatching(project_id);
+        return;
+      }
+      try {
+        // Another server process may have written since the last request
+        refreshFromDisk();
+        runSync(project_id, root, dirs);
+      } catch (error) {
+        console.error(`Workspace sync failed for project ${project_id}: ${String(error)}`);
+      }
+    }, WATCH_DEBOUNCE_MS);
+    state.timer.unref();
+  };
+
+  for (const dir of dirs) {
+    const absDir = path.resolve(root, dir);
+    if (!fs.existsSync(absDir)) continue;
+    watchTree(absDir, trigger, state.watchers);
+  }
+
+  if (state.watchers.length === 0) {
+    throw new Error(`None of the directories to watch exist under ${root}: ${dirs.join(', ')}`);
+  }
+  watchers.set(project_id, state);
+}
+
+function watchDir(dir: string, options: fs.WatchOptions, onChange: () => void, watchers: fs.FSWatcher[]): void {
+  const watcher = fs.watch(dir, options, onChange);
+  watcher.on('error', error => console.error(`Stopped watching ${dir}: ${String(error)}`));
+  // Watching alone must not keep the process alive
+  watcher.unref();
+  watchers.push(watcher);
+}
+
+/**
+ * Watch absDir and everything below it. Recursive watching is not available
+ * everywhere (Linux before Node 20); there, each directory gets its own
+ * watcher, and directories created later are watched from the next event.
+ */
+function watchTree(absDir: string, onChange: () => void, watchers: fs.FSWatcher[]): void {
+  try {
+    watchDir(absDir, { recursive: true }, onChange, watchers);
+    return;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw error;
+  }
+
+  const watched = new Set<string>();
+  const watchBelow = (dir: string) => {
+    if (!watched.has(dir)) {
+      watched.add(dir);
+      watchDir(dir, {}, () => {
+        try { watchBelow(dir); } catch { /* removed meanwhile */ }
+        onChange();
+      }, watchers);
+    }
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.isDirectory() && !entry.name.startsWith('.')) watchBelow(path.join(dir, entry.name));
+    }
+  };
+  watchBelow(absDir);
+}
+
+export function stopWatching(project_id: string): void {
+  const state = watchers.get(project_id);
+  if (!state) return;
+  if (state.timer) clearTimeout(state.timer);
+  for (const watcher of state.watchers) watcher.close();
+  watchers.delete(project_id);
+}
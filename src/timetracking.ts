@@ -0,0 +1,219 @@
+/**
+ * AuraCore MCP - Time Tracking
+ * Estimate parsing and estimate-vs-actual reporting from task status history
+ */
+import { Task, TaskStatusChange } from './types';
+
+// Estimates are in working time: "1d" is a working day, "1w" a working week
+export const HOURS_PER_DAY = 8;
+export const DAYS_PER_WEEK = 5;
+// In progress for longer than this (without an estimate to compare to) counts as stalled
+export const DEFAULT_STALLED_AFTER_HOURS = 48;
+
+const UNIT_MINUTES: Record<string, number> = {
+  m: 1, min: 1, mins: 1, minute: 1, minutes: 1,
+  h: 60, hr: 60, hrs: 60, hour: 60, hours: 60,
+  d: 60 * HOURS_PER_DAY, day: 60 * HOURS_PER_DAY, days: 60 * HOURS_PER_DAY,
+  w: 60 * HOURS_PER_DAY * DAYS_PER_WEEK, wk: 60 * HOURS_PER_DAY * DAYS_PER_WEEK,
+  week: 60 * HOURS_PER_DAY * DAYS_PER_WEEK, weeks: 60 * HOURS_PER_DAY * DAYS_PER_WEEK
+};
+
+// Amount + unit pairs, optionally separated by spaces, commas, "+" or "and"
+const DURATION_PART = /(\d+(?:\.\d+)?)\s*([a-z]+)/g;
+const DURATION_PATTERN = /^(\d+(\.\d+)?\s*[a-z]+)(\s*(,|\+|and)?\s*\d+(\.\d+)?\s*[a-z]+)*$/;
+
+/**
+ * Minutes in an estimate such as "2h", "1d", "1h30m", "1.5 days" or "45 min".
+ * A bare number counts as hours. Returns null if the text is not a duration.
+ */
+export function parseDuration(text: string | null | undefined): number | null {
+  if (!text) return null;
+  const normalized = text.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(normalized)) return Math.round(Number(normalized) * 60);
+  if (!DURATION_PATTERN.test(normalized)) return null;
+
+  let total = 0;
+  for (const [, amount, unit] of normalized.matchAll(DURATION_PART)) {
+    const minutes = UNIT_MINUTES[unit];
+    if (minutes === undefined) return null;
+    total += Number(amount) * minutes;
+  }
+  return Math.round(total);
+}
+
+export interface TaskTiming {
+  started_at: string | null;          // First move to in_progress
+  completed_at: string | null;        // Last move to completed
+  active_minutes: number;             // Time spent in in_progress, summed over every stint
+  cycle_time_minutes: number | null;  // started_at to completed_at
+}
+
+const minutesBetween = (from: string, to: string | Date) =>
+  Math.max(0, ((to instanceof Date ? to.getTime() : Date.parse(to)) - Date.parse(from)) / 60000);
+
+/**
+ * Timing of one task from its status changes (oldest first). A task still in
+ * progress counts its current stint up to now.
+ */
+export function computeTiming(history: TaskStatusChange[], now: Date): TaskTiming {
+  let startedAt: string | null = null;
+  let completedAt: string | null = null;
+  let stintStart: string | null = null;
+  let active = 0;
+
+  for (const change of history) {
+    if (stintStart && change.to_status !== 'in_progress') {
+      active += minutesBetween(stintStart, change.changed_at);
+      stintStart = null;
+    }
+    if (change.to_status === 'in_progress') {
+      startedAt = startedAt ?? change.changed_at;
+      stintStart = stintStart ?? change.changed_at;
+    }
+    completedAt = change.to_status === 'completed' ? change.changed_at : null;
+  }
+  if (stintStart) active += minutesBetween(stintStart, now);
+
+  return {
+    started_at: startedAt,
+    completed_at: completedAt,
+    active_minutes: Math.round(active),
+    cycle_time_minutes: startedAt && completedAt ? Math.round(minutesBetween(startedAt, completedAt)) : null
+  };
+}
+
+export interface TaskTimeEntry {
+  task_id: string;
+  title: string;
+  type: Task['type'] | null;
+  estimated_time: string | null;
+  estimated_minutes: number | null;
+  actual_minutes: number;
+  variance_minutes: number | null;    // actual - estimated; > 0 means it took longer
+  cycle_time_minutes: number | null;
+}
+
+export interface CycleTimeByType {
+  type: string;
+  completed: number;
+  mean_minutes: number;
+  median_minutes: number;
+  max_minutes: number;
+}
+
+export interface InProgressEntry {
+  task_id: string;
+  title: string;
+  started_at: string | null;          // null if it never went through in_progress
+  age_minutes: number;                // Since the current stint began
+  estimated_minutes: number | null;
+  over_estimate: boolean;
+  stalled: boolean;
+}
+
+export interface TimeReport {
+  totals: {
+    tasks: number;
+    completed: number;
+    with_estimate: number;
+    estimated_minutes: number;        // Completed tasks with an estimate
+    actual_minutes: number;           // The same tasks
+    actual_to_estimate_ratio: number | null;
+  };
+  completed_tasks: TaskTimeEntry[];
+  cycle_time_by_type: CycleTimeByType[];
+  in_progress: InProgressEntry[];
+  unparsed_estimates: { task_id: string; title: string; estimated_time: string }[];
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Estimated vs actual time of completed tasks, cycle time by task type, and
+ * how long open tasks have been in progress. Actual time is the time a task
+ * spent in in_progress, measured on the clock.
+ */
+export function buildTimeReport(
+  tasks: Task[],
+  historyByTask: Map<string, TaskStatusChange[]>,
+  now: Date,
+  stalledAfterHours: number = DEFAULT_STALLED_AFTER_HOURS
+): TimeReport {
+  const completed: TaskTimeEntry[] = [];
+  const inProgress: InProgressEntry[] = [];
+  const unparsed: TimeReport['unparsed_estimates'] = [];
+  let withEstimate = 0;
+
+  for (const task of tasks) {
+    const estimated = parseDuration(task.estimated_time);
+    if (estimated !== null) withEstimate++;
+    else if (task.estimated_time) unparsed.push({ task_id: task.id, title: task.title, estimated_time: task.estimated_time });
+
+    const history = historyByTask.get(task.id) || [];
+    const timing = computeTiming(history, now);
+
+    if (task.status === 'completed') {
+      completed.push({
+        task_id: task.id,
+        title: task.title,
+        type: task.type ?? null,
+        estimated_time: task.estimated_time ?? null,
+        estimated_minutes: estimated,
+        actual_minutes: timing.active_minutes,
+        variance_minutes: estimated !== null ? timing.active_minutes - estimated : null,
+        cycle_time_minutes: timing.cycle_time_minutes
+      });
+    } else if (task.status === 'in_progress') {
+      // The current stint began at the last move to in_progress
+      const since = [...history].reverse().find(c => c.to_status === 'in_progress')?.changed_at ?? task.updated_at;
+      const age = Math.round(minutesBetween(since, now));
+      const overEstimate = estimated !== null && timing.active_minutes > estimated;
+      inProgress.push({
+        task_id: task.id,
+        title: task.title,
+        started_at: timing.started_at,
+        age_minutes: age,
+        estimated_minutes: estimated,
+        over_estimate: overEstimate,
+        stalled: overEstimate || age > stalledAfterHours * 60
+      });
+    }
+  }
+
+  const estimatedDone = completed.filter(t => t.estimated_minutes !== null);
+  const estimatedMinutes = estimatedDone.reduce((sum, t) => sum + t.estimated_minutes!, 0);
+  const actualMinutes = estimatedDone.reduce((sum, t) => sum + t.actual_minutes, 0);
+
+  const byType = new Map<string, number[]>();
+  for (const task of completed) {
+    if (task.cycle_time_minutes === null) continue;
+    const key = task.type || '(none)';
+    byType.set(key, [...(byType.get(key) || []), task.cycle_time_minutes]);
+  }
+
+  return {
+    totals: {
+      tasks: tasks.length,
+      completed: completed.length,
+      with_estimate: withEstimate,
+      estimated_minutes: estimatedMinutes,
+      actual_minutes: actualMinutes,
+      actual_to_estimate_ratio: estimatedMinutes > 0 ? Math.round((actualMinutes / estimatedMinutes) * 100) / 100 : null
+    },
+    completed_tasks: completed,
+    cycle_time_by_type: [...byType.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([type, times]) => ({
+      type,
+      completed: times.length,
+      mean_minutes: Math.round(times.reduce((sum, t) => sum + t, 0) / times.length),
+      median_minutes: Math.round(median(times)),
+      max_minutes: Math.max(...times)
+    })),
+    // Oldest first: the likeliest to be stuck
+    in_progress: inProgress.sort((a, b) => b.age_minutes - a.age_minutes),
+    unparsed_estimates: unparsed
+  };
+}
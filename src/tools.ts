@@ -2,36 +2,70 @@
  * AuraCore MCP - Tool Implementations
  * Uses sql.js helpers from database.ts
  */
-import { runAndSave, queryAll, queryOne } from './database';
+import { runAndSave, runExclusive, runInTransaction, queryAll, queryOne } from './database';
 import { v4 as uuidv4 } from 'uuid';
 import {
-  Project, Context, Task,
-  CreateProjectInput, StoreContextInput, QueryContextInput,
-  CreateTaskInput, UpdateTaskInput,
-  RememberInput, RecallInput, LogDecisionInput
+  Project, Context, ContextRevision, Task, Milestone, MilestoneNode, TaskNode, TaskProgress, TaskStatusChange,
+  CreateProjectInput, StoreContextInput, QueryContextInput, UpdateContextInput, ContextSearchResult, ContextDuplicate,
+  CreateTaskInput, UpdateTaskInput, ListTasksInput, CreateMilestoneInput, UpdateMilestoneInput,
+  RememberInput, RecallInput, RememberManyInput, RecallManyInput, ListMemoryInput,
+  CompareAndSetInput, IncrementInput, MemoryValue,
+  DecisionLog, LogDecisionInput, LinkDecisionInput, GetDecisionsInput, RecordOutcomeInput
 } from './types';
+import {
+  TaskRow, BlockedTask, toTask, validateDependencies, getBlockers, openSubtasksByParent,
+  computeChainLengths, findCriticalPath, compareByPriority
+} from './scheduler';
+import { buildTaskTree, descendantIds, wouldCreateCycle } from './hierarchy';
+import { buildTimeReport, TimeReport } from './timetracking';
+import { diffLines, diffStats, formatUnifiedDiff, DiffStats } from './diff';
+import { scopeCondition, findOverrides, applyOverrides, ScopedEntry } from './scopes';
+import { findDuplicates } from './duplicates';
+import { emitDataChange } from './changes';
+import { now as clockNow, nowIso } from './clock';
+import { ttlToSeconds, expiryFrom, remainingSeconds } from './ttl';
+import { buildCalibrationReport, CalibrationReport } from './calibration';
+import { buildMatchQuery, rankScore, PRIORITY_ORDER_SQL, HIGHLIGHT_START, HIGHLIGHT_END } from './search';
+
+// ============== PAGINATION ==============
+
+/**
+ * Trim rows fetched with LIMIT limit + 1 down to one page. The extra row only
+ * tells whether another page follows.
+ */
+function toPage<T>(rows: T[], limit: number, offset: number): { items: T[]; next_offset: number | null } {
+  return {
+    items: rows.slice(0, limit),
+    next_offset: rows.length > limit ? offset + limit : null
+  };
+}
 
 // ============== PROJECT TOOLS ==============
 
 export function createProject(input: CreateProjectInput): { success: boolean; project?: Project; error?: string } {
   try {
     const id = uuidv4();
-    const now = new Date().toISOString();
+    const now = nowIso();
 
     runAndSave(
-      `INSERT INTO projects (id, name, description, type, status, workspace_path, created_at, updated_at)
-       VALUES (?, ?, ?, ?, 'active', ?, ?, ?)`,
-      [id, input.name, input.description || null, input.type || 'feature', input.workspace_path || null, now, now]
+      `INSERT INTO projects (id, name, description, type, status, workspace_path, group_name, created_at, updated_at)
+       VALUES (?, ?, ?, ?, 'active', ?, ?, ?, ?)`,
+      [id, input.name, input.description || null, input.type || 'feature', input.workspace_path || null, input.group_name || null, now, now]
     );
 
     const project = queryOne<Project>('SELECT * FROM projects WHERE id = ?', [id]);
+    emitDataChange({ entity: 'project', action: 'created', id });
     return { success: true, project };
   } catch (error) {
     return { success: false, error: String(error) };
   }
 }
 
-export function listProjects(status?: string): { success: boolean; projects?: Project[]; error?: string } {
+export function listProjects(
+  status?: string,
+  limit: number = 50,
+  offset: number = 0
+): { success: boolean; projects?: Project[]; next_offset?: number | null; error?: string } {
   try {
     let query = 'SELECT * FROM projects';
     const params: any[] = [];
@@ -41,16 +75,29 @@ export function listProjects(status?: string): { success: boolean; projects?: Pr
       params.push(status);
     }
 
-    query += ' ORDER BY updated_at DESC';
+    query += ' ORDER BY updated_at DESC LIMIT ? OFFSET ?';
+    params.push(limit + 1, offset);
 
-    const projects = queryAll<Project>(query, params.length > 0 ? params : undefined);
-    return { success: true, projects };
+    const page = toPage(queryAll<Project>(query, params), limit, offset);
+    return { success: true, projects: page.items, next_offset: page.next_offset };
   } catch (error) {
     return { success: false, error: String(error) };
   }
 }
 
-export function getProject(project_id: string): { success: boolean; project?: Project; tasks?: Task[]; context_count?: number; error?: string } {
+/**
+ * A project with its tasks as a tree: milestones with their top-level tasks,
+ * subtasks under their parent, and progress rolled up at each level.
+ */
+export function getProject(project_id: string): {
+  success: boolean;
+  project?: Project;
+  progress?: TaskProgress;
+  milestones?: MilestoneNode[];
+  tasks?: TaskNode[];
+  context_count?: number;
+  error?: string;
+} {
   try {
     const project = queryOne<Project>('SELECT * FROM projects WHERE id = ?', [project_id]);
 
@@ -58,10 +105,14 @@ export function getProject(project_id: string): { success: boolean; project?: Pr
       return { success: false, error: 'Project not found' };
     }
 
-    const tasks = queryAll<Task>('SELECT * FROM tasks WHERE project_id = ? ORDER BY created_at', [project_id]);
+    const tasks = queryAll<TaskRow>(
+      'SELECT * FROM tasks WHERE project_id = ? AND archived_at IS NULL ORDER BY created_at',
+      [project_id]
+    ).map(toTask);
+    const tree = buildTaskTree(tasks, getProjectMilestones(project_id));
     const contextCount = queryOne<{ count: number }>('SELECT COUNT(*) as count FROM context WHERE project_id = ?', [project_id]);
 
-    return { success: true, project, tasks, context_count: contextCount?.count || 0 };
+    return { success: true, project, ...tree, context_count: contextCount?.count || 0 };
   } catch (error) {
     return { success: false, error: String(error) };
   }
@@ -76,75 +127,335 @@ export function updateProject(project_id: string, updates: Partial<Project>): {
     if (updates.description !== undefined) { fields.push('description = ?'); values.push(updates.description); }
     if (updates.status) { fields.push('status = ?'); values.push(updates.status); }
     if (updates.type) { fields.push('type = ?'); values.push(updates.type); }
+    // An empty string clears the path
+    if (updates.workspace_path !== undefined) { fields.push('workspace_path = ?'); values.push(updates.workspace_path || null); }
+    if (updates.group_name !== undefined) { fields.push('group_name = ?'); values.push(updates.group_name || null); }
 
     if (fields.length === 0) {
       return { success: false, error: 'No updates provided' };
     }
 
+    if (!projectExists(project_id)) {
+      return { success: false, error: 'Project not found' };
+    }
+
     fields.push('updated_at = ?');
-    values.push(new Date().toISOString());
+    values.push(nowIso());
     values.push(project_id);
 
     runAndSave(`UPDATE projects SET ${fields.join(', ')} WHERE id = ?`, values);
 
     const project = queryOne<Project>('SELECT * FROM projects WHERE id = ?', [project_id]);
+    if (project) {
+      emitDataChange({ entity: 'project', action: 'updated', id: project_id });
+    }
     return { success: true, project };
   } catch (error) {
     return { success: false, error: String(error) };
   }
 }
 
+/**
+ * Archive a project (status 'archived', everything kept) or delete it. A
+ * delete cascades to its tasks and context; its decisions stay, unlinked.
+ */
+export function deleteProject(project_id: string, archive: boolean = false): {
+  success: boolean;
+  archived?: boolean;
+  deleted?: { tasks: number; context: number };
+  error?: string;
+} {
+  try {
+    if (!projectExists(project_id)) {
+      return { success: false, error: 'Project not found' };
+    }
+
+    if (archive) {
+      runAndSave(`UPDATE projects SET status = 'archived', updated_at = ? WHERE id = ?`, [nowIso(), project_id]);
+      emitDataChange({ entity: 'project', action: 'updated', id: project_id });
+      return { success: true, archived: true };
+    }
+
+    const tasks = queryOne<{ count: number }>('SELECT COUNT(*) as count FROM tasks WHERE project_id = ?', [project_id]);
+    const context = queryOne<{ count: number }>('SELECT COUNT(*) as count FROM context WHERE project_id = ?', [project_id]);
+
+    runAndSave('DELETE FROM projects WHERE id = ?', [project_id]);
+    emitDataChange({ entity: 'project', action: 'deleted', id: project_id });
+    return { success: true, deleted: { tasks: tasks?.count || 0, context: context?.count || 0 } };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+function projectExists(project_id: string): boolean {
+  return queryOne<{ id: string }>('SELECT id FROM projects WHERE id = ?', [project_id]) !== undefined;
+}
+
 // ============== CONTEXT TOOLS ==============
 
-export function storeContext(input: StoreContextInput): { success: boolean; context?: Context; error?: string } {
+const SCOPE_CONFLICT = 'A context entry belongs to a project or to a group, not both';
+
+/**
+ * Store a context entry. Entries of the same layer (same project, same group,
+ * or global) that look like it, by content or by name, are returned as
+ * duplicates; unless on_duplicate says what to do, nothing is stored then.
+ * upsert updates the closest one, skip keeps it, create adds the entry anyway.
+ */
+export function storeContext(input: StoreContextInput): {
+  success: boolean;
+  context?: Context;
+  action?: 'created' | 'updated' | 'skipped';
+  duplicates?: ContextDuplicate[];
+  error?: string;
+} {
   try {
+    if (input.project_id && input.group_name) {
+      return { success: false, error: SCOPE_CONFLICT };
+    }
+    if (input.project_id && !projectExists(input.project_id)) {
+      return { success: false, error: 'Project not found' };
+    }
+
+    const sameLayer = queryAll<Context>(
+      'SELECT * FROM context WHERE project_id IS ? AND group_name IS ?',
+      [input.project_id || null, input.group_name || null]
+    );
+    const duplicates = findDuplicates(input, sameLayer);
+    if (duplicates.length > 0 && !input.on_duplicate) {
+      return {
+        success: false,
+        error: `Found ${duplicates.length} similar entr${duplicates.length === 1 ? 'y' : 'ies'} in the same layer, closest "${duplicates[0].name}". ` +
+          'Pass on_duplicate: "upsert" to update it, "skip" to keep it, or "create" to add a new entry anyway',
+        duplicates
+      };
+    }
+
+    if (duplicates.length > 0 && input.on_duplicate === 'skip') {
+      const context = sameLayer.find(entry => entry.id === duplicates[0].id);
+      return { success: true, context, action: 'skipped', duplicates };
+    }
+    if (duplicates.length > 0 && input.on_duplicate === 'upsert') {
+      const { name, content, type, category, priority, key } = input;
+      const updated = updateContext({ context_id: duplicates[0].id, name, content, type, category, priority, key });
+      return updated.success ? { ...updated, action: 'updated', duplicates } : updated;
+    }
+
     const id = uuidv4();
-    const now = new Date().toISOString();
+    const now = nowIso();
 
     runAndSave(
-      `INSERT INTO context (id, project_id, type, name, content, category, priority, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [id, input.project_id || null, input.type, input.name, input.content, input.category || null, input.priority || 'medium', now, now]
+      `INSERT INTO context (id, project_id, group_name, key, type, name, content, category, priority, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, input.project_id || null, input.group_name || null, input.key || null, input.type, input.name, input.content,
+        input.category || null, input.priority || 'medium', now, now]
     );
 
     const context = queryOne<Context>('SELECT * FROM context WHERE id = ?', [id]);
-    return { success: true, context };
+    emitDataChange({ entity: 'context', action: 'created', id, project_id: input.project_id });
+    return { success: true, context, action: 'created', ...(duplicates.length > 0 ? { duplicates } : {}) };
   } catch (error) {
     return { success: false, error: String(error) };
   }
 }
 
-export function queryContext(input: QueryContextInput): { success: boolean; results?: Context[]; error?: string } {
+/**
+ * Context entries matching the filters. With a project (or a group), the
+ * merged view of its layers: the project's entries, its group's and the
+ * global ones, where an entry overrides lower-layer entries with the same
+ * key or name. Each result says which layer it comes from.
+ */
+export function queryContext(input: QueryContextInput): {
+  success: boolean;
+  results?: ContextSearchResult[];
+  next_offset?: number | null;
+  error?: string;
+} {
   try {
-    let query = 'SELECT * FROM context WHERE 1=1';
+    const filters: string[] = [];
     const params: any[] = [];
 
-    if (input.project_id) {
-      query += ' AND (project_id = ? OR project_id IS NULL)';
-      params.push(input.project_id);
+    let group_name = input.group_name;
+    if (input.project_id && group_name === undefined) {
+      group_name = queryOne<Project>('SELECT group_name FROM projects WHERE id = ?', [input.project_id])?.group_name;
+    }
+    const layers = input.project_id || group_name ? scopeCondition('c', { project_id: input.project_id, group_name }) : null;
+    if (layers) {
+      filters.push(layers.sql);
+      params.push(...layers.params);
     }
 
     if (input.type) {
-      query += ' AND type = ?';
+      filters.push('c.type = ?');
       params.push(input.type);
     }
 
     if (input.category) {
-      query += ' AND category = ?';
+      filters.push('c.category = ?');
       params.push(input.category);
     }
 
-    if (input.search) {
-      query += ' AND (name LIKE ? OR content LIKE ?)';
-      const searchTerm = `%${input.search}%`;
-      params.push(searchTerm, searchTerm);
+    const limit = input.limit || 20;
+    const offset = input.offset || 0;
+
+    if (input.as_of) {
+      return queryContextAsOf(input, layers, filters, params, limit, offset);
+    }
+
+    // Overrides are resolved across every entry in scope, whatever the other filters
+    const overrides = layers
+      ? findOverrides(queryAll<ScopedEntry>(`SELECT id, project_id, group_name, key, name FROM context c WHERE ${layers.sql}`, layers.params))
+      : new Map<string, string>();
+    // Overridden entries are dropped after the query, so the page is then cut here rather than in SQL
+    const dropsRows = overrides.size > 0 && !input.include_shadowed;
+
+    if (!input.search) {
+      const where = filters.length > 0 ? ` WHERE ${filters.join(' AND ')}` : '';
+      const rows = queryAll<Context>(
+        `SELECT c.* FROM context c${where} ORDER BY ${PRIORITY_ORDER_SQL}, c.updated_at DESC${dropsRows ? '' : ' LIMIT ? OFFSET ?'}`,
+        dropsRows ? params : [...params, limit + 1, offset]
+      );
+      const results = applyOverrides(rows, overrides, input.include_shadowed);
+      const page = toPage(dropsRows ? results.slice(offset, offset + limit + 1) : results, limit, offset);
+      return { success: true, results: page.items, next_offset: page.next_offset };
+    }
+
+    const match = buildMatchQuery(input.search);
+    if (!match) {
+      return { success: true, results: [], next_offset: null };
+    }
+
+    // Rank every match, then trim: BM25 is computed in JS from matchinfo
+    const rows = queryAll<Context & { match_info: Uint8Array; snippet: string }>(
+      `SELECT c.*,
+         matchinfo(context_fts, 'pcnalx') AS match_info,
+         snippet(context_fts, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}', '…', -1, 16) AS snippet
+       FROM context_fts
+       JOIN context c ON c.rowid = context_fts.docid
+       WHERE context_fts MATCH ?${filters.map(f => ` AND ${f}`).join('')}`,
+      [match, ...params]
+    );
+
+    const ranked = applyOverrides(rows, overrides, input.include_shadowed)
+      .map(({ match_info, ...row }) => ({ ...row, score: rankScore(match_info, row.priority) }))
+      .sort((a, b) => b.score - a.score || (a.updated_at < b.updated_at ? 1 : -1));
+
+    const page = toPage(ranked.slice(offset, offset + limit + 1), limit, offset);
+    return { success: true, results: page.items, next_offset: page.next_offset };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Entries as they stood at input.as_of: the last revision of each entry up to
+ * then, unless that revision is its deletion. The FTS index only covers the
+ * current text, so search matches every term as a case-insensitive substring.
+ */
+function queryContextAsOf(
+  input: QueryContextInput,
+  layers: { sql: string; params: any[] } | null,
+  filters: string[],
+  params: any[],
+  limit: number,
+  offset: number
+): { success: boolean; results?: ContextSearchResult[]; next_offset?: number | null } {
+  const asOf = new Date(input.as_of!).toISOString();
+  const snapshot = `c.changed_at <= ? AND c.action != 'deleted'
+       AND c.revision = (SELECT MAX(revision) FROM context_revisions r WHERE r.context_id = c.context_id AND r.changed_at <= ?)`;
+
+  const overrides = layers
+    ? findOverrides(queryAll<ScopedEntry>(
+        `SELECT c.context_id AS id, c.project_id, c.group_name, c.key, c.name FROM context_revisions c WHERE ${snapshot} AND ${layers.sql}`,
+        [asOf, asOf, ...layers.params]
+      ))
+    : new Map<string, string>();
+
+  const conditions = [...filters];
+  const values = [...params];
+  for (const term of (input.search || '').toLowerCase().split(/\s+/).filter(Boolean)) {
+    conditions.push(`instr(lower(c.name || ' ' || c.content || ' ' || COALESCE(c.category, '')), ?) > 0`);
+    values.push(term);
+  }
+
+  const rows = queryAll<ContextRevision & { created_at: string }>(
+    `SELECT c.*, (SELECT MIN(changed_at) FROM context_revisions f WHERE f.context_id = c.context_id) AS created_at
+     FROM context_revisions c
+     WHERE ${snapshot}${conditions.map(f => ` AND ${f}`).join('')}
+     ORDER BY ${PRIORITY_ORDER_SQL}, c.changed_at DESC`,
+    [asOf, asOf, ...values]
+  );
+
+  const entries = rows.map(({ context_id, revision, action, changed_at, ...row }) => ({
+    ...row,
+    id: context_id,
+    project_id: row.project_id ?? undefined,
+    group_name: row.group_name ?? undefined,
+    key: row.key ?? undefined,
+    category: row.category ?? undefined,
+    updated_at: changed_at,
+    revision
+  }));
+  const results = applyOverrides(entries, overrides, input.include_shadowed);
+  const page = toPage(results.slice(offset, offset + limit + 1), limit, offset);
+  return { success: true, results: page.items, next_offset: page.next_offset };
+}
+
+/**
+ * Edit a context entry in place; it keeps its ID. project_id moves it to
+ * another project and group_name to a group; null for either leaves that
+ * layer (both null: global scope).
+ */
+export function updateContext(input: UpdateContextInput): { success: boolean; context?: Context; error?: string } {
+  try {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (input.name) { fields.push('name = ?'); values.push(input.name); }
+    if (input.content) { fields.push('content = ?'); values.push(input.content); }
+    if (input.type) { fields.push('type = ?'); values.push(input.type); }
+    if (input.category !== undefined) { fields.push('category = ?'); values.push(input.category || null); }
+    if (input.priority) { fields.push('priority = ?'); values.push(input.priority); }
+    if (input.key !== undefined) { fields.push('key = ?'); values.push(input.key || null); }
+    if (input.project_id && input.group_name) {
+      return { success: false, error: SCOPE_CONFLICT };
+    }
+    // Moving to one layer leaves the other
+    if (input.project_id !== undefined) {
+      fields.push('project_id = ?');
+      values.push(input.project_id);
+      if (input.project_id) fields.push('group_name = NULL');
+    }
+    if (input.group_name !== undefined) {
+      fields.push('group_name = ?');
+      values.push(input.group_name || null);
+      if (input.group_name) fields.push('project_id = NULL');
+    }
+
+    if (fields.length === 0) {
+      return { success: false, error: 'No updates provided' };
     }
 
-    query += ' ORDER BY priority DESC, updated_at DESC';
-    query += ` LIMIT ${input.limit || 20}`;
+    const existing = queryOne<Context>('SELECT id, project_id FROM context WHERE id = ?', [input.context_id]);
+    if (!existing) {
+      return { success: false, error: 'Context not found' };
+    }
+    if (input.project_id && !projectExists(input.project_id)) {
+      return { success: false, error: 'Project not found' };
+    }
 
-    const results = queryAll<Context>(query, params.length > 0 ? params : undefined);
-    return { success: true, results };
+    fields.push('updated_at = ?');
+    values.push(nowIso());
+    values.push(input.context_id);
+
+    runAndSave(`UPDATE context SET ${fields.join(', ')} WHERE id = ?`, values);
+
+    const context = queryOne<Context>('SELECT * FROM context WHERE id = ?', [input.context_id]);
+    emitDataChange({ entity: 'context', action: 'updated', id: input.context_id, project_id: context?.project_id });
+    if (existing.project_id && existing.project_id !== context?.project_id) {
+      // The old project's overview lists one entry less
+      emitDataChange({ entity: 'project', action: 'updated', id: existing.project_id });
+    }
+    return { success: true, context };
   } catch (error) {
     return { success: false, error: String(error) };
   }
@@ -153,161 +464,720 @@ export function queryContext(input: QueryContextInput): { success: boolean; resu
 export function deleteContext(context_id: string): { success: boolean; error?: string } {
   try {
     // Check if exists first
-    const existing = queryOne<Context>('SELECT id FROM context WHERE id = ?', [context_id]);
+    const existing = queryOne<Context>('SELECT id, project_id FROM context WHERE id = ?', [context_id]);
     if (!existing) {
       return { success: false, error: 'Context not found' };
     }
     runAndSave('DELETE FROM context WHERE id = ?', [context_id]);
+    emitDataChange({ entity: 'context', action: 'deleted', id: context_id, project_id: existing.project_id });
     return { success: true };
   } catch (error) {
     return { success: false, error: String(error) };
   }
 }
 
+const REVISION_COLUMNS = 'context_id, revision, action, project_id, group_name, type, name, key, content, category, priority, changed_at';
+
+function getRevisions(context_id: string): ContextRevision[] {
+  return queryAll<ContextRevision>(
+    `SELECT ${REVISION_COLUMNS} FROM context_revisions WHERE context_id = ? ORDER BY revision`,
+    [context_id]
+  );
+}
+
+/**
+ * Revisions of a context entry, oldest first. Content is left out unless
+ * asked for; auracore_context_diff shows what changed.
+ */
+export function getContextHistory(context_id: string, include_content: boolean = false): {
+  success: boolean;
+  context_id?: string;
+  deleted?: boolean;
+  revisions?: (Omit<ContextRevision, 'content'> & { content?: string })[];
+  error?: string;
+} {
+  try {
+    const revisions = getRevisions(context_id);
+    if (revisions.length === 0) {
+      return { success: false, error: 'Context not found' };
+    }
+    return {
+      success: true,
+      context_id,
+      deleted: revisions[revisions.length - 1].action === 'deleted',
+      revisions: include_content ? revisions : revisions.map(({ content, ...revision }) => revision)
+    };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+const REVISION_FIELDS = ['name', 'key', 'type', 'category', 'priority', 'project_id', 'group_name'] as const;
+
+/**
+ * What changed between two revisions of a context entry. Without revisions,
+ * compares the latest with the one before it.
+ */
+export function diffContext(input: { context_id: string; from_revision?: number; to_revision?: number }): {
+  success: boolean;
+  from?: ContextRevision;
+  to?: ContextRevision;
+  changes?: { field: string; from: string | null; to: string | null }[];
+  stats?: DiffStats;
+  diff?: string;
+  error?: string;
+} {
+  try {
+    const revisions = getRevisions(input.context_id);
+    if (revisions.length === 0) {
+      return { success: false, error: 'Context not found' };
+    }
+
+    const toNumber = input.to_revision ?? revisions[revisions.length - 1].revision;
+    const fromNumber = input.from_revision ?? Math.max(1, toNumber - 1);
+    const from = revisions.find(r => r.revision === fromNumber);
+    const to = revisions.find(r => r.revision === toNumber);
+    if (!from || !to) {
+      const missing = !to ? toNumber : fromNumber;
+      return { success: false, error: `Revision ${missing} not found (entry has revisions 1 to ${revisions[revisions.length - 1].revision})` };
+    }
+    if (from.revision > to.revision) {
+      return { success: false, error: 'from_revision must not be after to_revision' };
+    }
+
+    const changes = REVISION_FIELDS
+      .filter(field => from[field] !== to[field])
+      .map(field => ({ field, from: from[field], to: to[field] }));
+    const lines = diffLines(from.content, to.content);
+    const label = (r: ContextRevision) => `${r.name} (revision ${r.revision}, ${r.changed_at})`;
+
+    return {
+      success: true,
+      from,
+      to,
+      changes,
+      stats: diffStats(lines),
+      diff: formatUnifiedDiff(lines, label(from), label(to))
+    };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
 // ============== TASK TOOLS ==============
 
 export function createTask(input: CreateTaskInput): { success: boolean; task?: Task; error?: string } {
   try {
+    if (!projectExists(input.project_id)) {
+      return { success: false, error: 'Project not found' };
+    }
+
     const id = uuidv4();
-    const now = new Date().toISOString();
+    const now = nowIso();
 
-    runAndSave(
-      `INSERT INTO tasks (id, project_id, title, description, status, priority, type, depends_on, estimated_time, created_at, updated_at)
-       VALUES (?, ?, ?, ?, 'pending', ?, ?, ?, ?, ?, ?)`,
-      [
-        id,
-        input.project_id,
-        input.title,
-        input.description || null,
-        input.priority || 'medium',
-        input.type || null,
-        input.depends_on ? JSON.stringify(input.depends_on) : null,
-        input.estimated_time || null,
-        now,
-        now
-      ]
-    );
+    if (input.depends_on && input.depends_on.length > 0) {
+      const error = validateDependencies(id, input.depends_on, getProjectTasks(input.project_id));
+      if (error) {
+        return { success: false, error };
+      }
+    }
+
+    // Subtasks belong to their parent's milestone
+    let milestone_id = input.milestone_id || null;
+    if (input.parent_id) {
+      const parent = getProjectTasks(input.project_id).find(t => t.id === input.parent_id);
+      if (!parent) {
+        return { success: false, error: `Parent task ${input.parent_id} not found in this project` };
+      }
+      if (milestone_id && milestone_id !== (parent.milestone_id || null)) {
+        return { success: false, error: 'A subtask belongs to its parent\'s milestone; set the milestone on the top-level task' };
+      }
+      milestone_id = parent.milestone_id || null;
+    } else if (milestone_id && !milestoneInProject(milestone_id, input.project_id)) {
+      return { success: false, error: `Milestone ${milestone_id} not found in this project` };
+    }
+
+    runInTransaction(() => {
+      runAndSave(
+        `INSERT INTO tasks (id, project_id, title, description, status, priority, type, depends_on, estimated_time, parent_id, milestone_id, created_at, updated_at)
+         VALUES (?, ?, ?, ?, 'pending', ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          input.project_id,
+          input.title,
+          input.description || null,
+          input.priority || 'medium',
+          input.type || null,
+          input.depends_on ? JSON.stringify(input.depends_on) : null,
+          input.estimated_time || null,
+          input.parent_id || null,
+          milestone_id,
+          now,
+          now
+        ]
+      );
+      recordStatusChange(id, null, 'pending', now);
+    });
 
-    const task = queryOne<Task>('SELECT * FROM tasks WHERE id = ?', [id]);
-    return { success: true, task };
+    const row = queryOne<TaskRow>('SELECT * FROM tasks WHERE id = ?', [id]);
+    emitDataChange({ entity: 'task', action: 'created', id, project_id: input.project_id });
+    return { success: true, task: row && toTask(row) };
   } catch (error) {
     return { success: false, error: String(error) };
   }
 }
 
-export function updateTask(input: UpdateTaskInput): { success: boolean; task?: Task; error?: string } {
+export function updateTask(input: UpdateTaskInput): {
+  success: boolean;
+  task?: Task;
+  completed_subtasks?: string[];
+  error?: string;
+} {
   try {
     const fields: string[] = [];
     const values: any[] = [];
+    const now = nowIso();
+
+    const existing = queryOne<TaskRow>('SELECT * FROM tasks WHERE id = ?', [input.task_id]);
+    if (!existing) {
+      return { success: false, error: 'Task not found' };
+    }
+    const projectTasks = getProjectTasks(existing.project_id);
 
     if (input.status) {
       fields.push('status = ?');
       values.push(input.status);
       if (input.status === 'completed') {
         fields.push('completed_at = ?');
-        values.push(new Date().toISOString());
+        values.push(now);
+      } else {
+        // Reopened (or never completed): no completion date
+        fields.push('completed_at = NULL');
       }
     }
     if (input.priority) { fields.push('priority = ?'); values.push(input.priority); }
     if (input.description !== undefined) { fields.push('description = ?'); values.push(input.description); }
 
+    if (input.depends_on !== undefined) {
+      const error = validateDependencies(input.task_id, input.depends_on, projectTasks);
+      if (error) {
+        return { success: false, error };
+      }
+      fields.push('depends_on = ?');
+      values.push(input.depends_on.length > 0 ? JSON.stringify(input.depends_on) : null);
+    }
+
+    // Where the task sits in the tree; its subtasks follow it to the new milestone
+    let parent_id = existing.parent_id || null;
+    let milestone_id = existing.milestone_id || null;
+    if (input.parent_id !== undefined) {
+      parent_id = input.parent_id;
+      if (parent_id) {
+        const parent = projectTasks.find(t => t.id === parent_id);
+        if (!parent) {
+          return { success: false, error: `Parent task ${parent_id} not found in this project` };
+        }
+        if (wouldCreateCycle(input.task_id, parent_id, projectTasks)) {
+          return { success: false, error: 'A task cannot be moved under itself or one of its subtasks' };
+        }
+        milestone_id = parent.milestone_id || null;
+      }
+      fields.push('parent_id = ?');
+      values.push(parent_id);
+    }
+    if (input.milestone_id !== undefined) {
+      if (parent_id) {
+        return { success: false, error: 'A subtask belongs to its parent\'s milestone; set the milestone on the top-level task' };
+      }
+      if (input.milestone_id && !milestoneInProject(input.milestone_id, existing.project_id)) {
+        return { success: false, error: `Milestone ${input.milestone_id} not found in this project` };
+      }
+      milestone_id = input.milestone_id;
+    }
+    const subtreeIds = descendantIds(input.task_id, projectTasks);
+    if (milestone_id !== (existing.milestone_id || null)) {
+      fields.push('milestone_id = ?');
+      values.push(milestone_id);
+    }
+
     if (fields.length === 0) {
       return { success: false, error: 'No updates provided' };
     }
 
+    // A parent is done only when its subtasks are
+    let completedSubtasks: Task[] = [];
+    if (input.status === 'completed') {
+      const open = projectTasks.filter(t => subtreeIds.includes(t.id) && t.status !== 'completed');
+      if (open.length > 0 && !input.complete_subtasks) {
+        const titles = open.slice(0, 5).map(t => `"${t.title}"`).join(', ');
+        return {
+          success: false,
+          error: `Task has ${open.length} open subtask(s): ${titles}${open.length > 5 ? ', ...' : ''}. Complete them first or pass complete_subtasks: true`
+        };
+      }
+      completedSubtasks = open;
+    }
+
     fields.push('updated_at = ?');
-    values.push(new Date().toISOString());
+    values.push(now);
     values.push(input.task_id);
 
-    runAndSave(`UPDATE tasks SET ${fields.join(', ')} WHERE id = ?`, values);
+    runInTransaction(() => {
+      runAndSave(`UPDATE tasks SET ${fields.join(', ')} WHERE id = ?`, values);
+      if (input.status && input.status !== existing.status) {
+        recordStatusChange(input.task_id, existing.status, input.status, now);
+      }
+
+      for (const subtask of completedSubtasks) {
+        runAndSave(`UPDATE tasks SET status = 'completed', completed_at = ?, updated_at = ? WHERE id = ?`, [now, now, subtask.id]);
+        recordStatusChange(subtask.id, subtask.status, 'completed', now);
+      }
+      if (milestone_id !== (existing.milestone_id || null) && subtreeIds.length > 0) {
+        runAndSave(
+          `UPDATE tasks SET milestone_id = ?, updated_at = ? WHERE id IN (${subtreeIds.map(() => '?').join(', ')})`,
+          [milestone_id, now, ...subtreeIds]
+        );
+      }
+    });
+
+    for (const subtask of completedSubtasks) {
+      emitDataChange({ entity: 'task', action: 'updated', id: subtask.id, project_id: existing.project_id });
+    }
+    const row = queryOne<TaskRow>('SELECT * FROM tasks WHERE id = ?', [input.task_id]);
+    if (row) {
+      emitDataChange({ entity: 'task', action: 'updated', id: row.id, project_id: row.project_id });
+    }
+    return {
+      success: true,
+      task: row && toTask(row),
+      ...(completedSubtasks.length > 0 ? { completed_subtasks: completedSubtasks.map(t => t.id) } : {})
+    };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+export function getNextTasks(
+  project_id: string,
+  limit: number = 3,
+  order: 'priority' | 'critical_path' = 'priority'
+): {
+  success: boolean;
+  tasks?: (Task & { critical_path_length?: number })[];
+  blocked?: BlockedTask[];
+  critical_path?: string[];
+  error?: string;
+} {
+  try {
+    const all = getProjectTasks(project_id);
+    // Archived tasks are not scheduled, but the tasks that depend on them still wait
+    const archived = queryAll<TaskRow>('SELECT * FROM tasks WHERE project_id = ? AND archived_at IS NOT NULL', [project_id]).map(toTask);
+    const byId = new Map([...all, ...archived].map(t => [t.id, t]));
+    const open = all.filter(t => t.status === 'pending' || t.status === 'in_progress');
+
+    // Only tasks whose dependencies and subtasks are all completed are ready to work on
+    const openSubtasks = openSubtasksByParent(all);
+    const ready: Task[] = [];
+    const blocked: BlockedTask[] = [];
+    for (const task of open) {
+      const blockers = [...getBlockers(task, byId), ...(openSubtasks.get(task.id) || [])];
+      if (blockers.length === 0) {
+        ready.push(task);
+      } else {
+        blocked.push({ task_id: task.id, title: task.title, blocked_by: blockers });
+      }
+    }
+
+    if (order === 'critical_path') {
+      const chainLengths = computeChainLengths(open);
+      const tasks = ready
+        .sort((a, b) => (chainLengths.get(b.id)! - chainLengths.get(a.id)!) || compareByPriority(a, b))
+        .slice(0, limit)
+        .map(t => ({ ...t, critical_path_length: chainLengths.get(t.id) }));
+      return { success: true, tasks, blocked, critical_path: findCriticalPath(open, chainLengths) };
+    }
 
-    const task = queryOne<Task>('SELECT * FROM tasks WHERE id = ?', [input.task_id]);
-    return { success: true, task };
+    const tasks = ready.sort(compareByPriority).slice(0, limit);
+    return { success: true, tasks, blocked };
   } catch (error) {
     return { success: false, error: String(error) };
   }
 }
 
-export function getNextTasks(project_id: string, limit: number = 3): { success: boolean; tasks?: Task[]; error?: string } {
+export function listTasks(input: ListTasksInput): { success: boolean; tasks?: Task[]; total?: number; next_offset?: number | null; error?: string } {
   try {
-    const tasks = queryAll<Task>(
-      `SELECT * FROM tasks
-       WHERE project_id = ? AND status IN ('pending', 'in_progress')
-       ORDER BY
-         CASE priority
-           WHEN 'critical' THEN 1
-           WHEN 'high' THEN 2
-           WHEN 'medium' THEN 3
-           WHEN 'low' THEN 4
-         END,
-         created_at ASC
-       LIMIT ?`,
-      [project_id, limit]
+    if (!projectExists(input.project_id)) {
+      return { success: false, error: 'Project not found' };
+    }
+
+    const filters = ['project_id = ?'];
+    const params: any[] = [input.project_id];
+
+    if (input.status) { filters.push('status = ?'); params.push(input.status); }
+    if (input.type) { filters.push('type = ?'); params.push(input.type); }
+    if (input.priority) { filters.push('priority = ?'); params.push(input.priority); }
+    if (!input.include_archived) { filters.push('archived_at IS NULL'); }
+
+    const where = filters.join(' AND ');
+    const limit = input.limit || 50;
+    const offset = input.offset || 0;
+
+    const total = queryOne<{ count: number }>(`SELECT COUNT(*) as count FROM tasks WHERE ${where}`, params);
+    const page = toPage(
+      queryAll<TaskRow>(`SELECT * FROM tasks WHERE ${where} ORDER BY created_at, id LIMIT ? OFFSET ?`, [...params, limit + 1, offset]),
+      limit,
+      offset
     );
+    return { success: true, tasks: page.items.map(toTask), total: total?.count || 0, next_offset: page.next_offset };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Archive a task (hidden from listings and scheduling, row kept) or delete
+ * it, together with its subtasks. Deleting also removes them from the
+ * depends_on of the tasks that depended on any of them; archiving leaves the
+ * dependency graph as it is, so those tasks keep waiting.
+ */
+export function deleteTask(task_id: string, archive: boolean = false): {
+  success: boolean;
+  archived?: boolean;
+  subtasks?: string[];
+  unlinked_dependents?: string[];
+  error?: string;
+} {
+  try {
+    const existing = queryOne<TaskRow>('SELECT id, project_id FROM tasks WHERE id = ?', [task_id]);
+    if (!existing) {
+      return { success: false, error: 'Task not found' };
+    }
 
-    return { success: true, tasks };
+    const now = nowIso();
+    const all = queryAll<TaskRow>('SELECT * FROM tasks WHERE project_id = ?', [existing.project_id]).map(toTask);
+    const subtasks = descendantIds(task_id, all);
+    const removed = new Set([task_id, ...subtasks]);
+    const dependents = archive ? [] : all.filter(t => !removed.has(t.id) && t.depends_on?.some(id => removed.has(id)));
+
+    runInTransaction(() => {
+      for (const dependent of dependents) {
+        const remaining = dependent.depends_on!.filter(id => !removed.has(id));
+        runAndSave(
+          'UPDATE tasks SET depends_on = ?, updated_at = ? WHERE id = ?',
+          [remaining.length > 0 ? JSON.stringify(remaining) : null, now, dependent.id]
+        );
+      }
+      if (archive) {
+        for (const id of removed) {
+          runAndSave('UPDATE tasks SET archived_at = ?, updated_at = ? WHERE id = ?', [now, now, id]);
+        }
+      } else {
+        // Subtasks go with it (ON DELETE CASCADE)
+        runAndSave('DELETE FROM tasks WHERE id = ?', [task_id]);
+      }
+    });
+
+    for (const id of removed) {
+      emitDataChange({ entity: 'task', action: archive ? 'updated' : 'deleted', id, project_id: existing.project_id });
+    }
+    return { success: true, archived: archive, subtasks, unlinked_dependents: dependents.map(t => t.id) };
   } catch (error) {
     return { success: false, error: String(error) };
   }
 }
 
-// ============== MEMORY TOOLS ==============
+// Tasks of a project that take part in scheduling (archived ones do not)
+function getProjectTasks(project_id: string): Task[] {
+  return queryAll<TaskRow>('SELECT * FROM tasks WHERE project_id = ? AND archived_at IS NULL', [project_id]).map(toTask);
+}
 
-export function remember(input: RememberInput): { success: boolean; error?: string } {
+// ============== TIME TRACKING ==============
+
+function recordStatusChange(task_id: string, from: Task['status'] | null, to: Task['status'], at: string): void {
+  runAndSave(
+    'INSERT INTO task_status_history (id, task_id, from_status, to_status, changed_at) VALUES (?, ?, ?, ?, ?)',
+    [uuidv4(), task_id, from, to, at]
+  );
+}
+
+// Status changes of a task, oldest first
+export function getTaskHistory(task_id: string): { success: boolean; task?: Task; history?: TaskStatusChange[]; error?: string } {
   try {
-    const id = uuidv4();
-    const session_id = input.session_id || 'default';
-    const now = new Date().toISOString();
+    const row = queryOne<TaskRow>('SELECT * FROM tasks WHERE id = ?', [task_id]);
+    if (!row) {
+      return { success: false, error: 'Task not found' };
+    }
+    const history = queryAll<TaskStatusChange>(
+      'SELECT task_id, from_status, to_status, changed_at FROM task_status_history WHERE task_id = ? ORDER BY changed_at, rowid',
+      [task_id]
+    );
+    return { success: true, task: toTask(row), history };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
 
-    let expires_at: string | null = null;
-    if (input.ttl_minutes) {
-      const expiry = new Date();
-      expiry.setMinutes(expiry.getMinutes() + input.ttl_minutes);
-      expires_at = expiry.toISOString();
+/**
+ * Estimated vs actual time, cycle time by task type and the age of work in
+ * progress for a project, from the status history of its tasks.
+ */
+export function getTimeReport(project_id: string, stalled_after_hours?: number): {
+  success: boolean;
+  report?: TimeReport;
+  error?: string;
+} {
+  try {
+    if (!projectExists(project_id)) {
+      return { success: false, error: 'Project not found' };
     }
 
-    // Check if key exists
-    const existing = queryOne<{ id: string }>(
-      'SELECT id FROM session_memory WHERE session_id = ? AND key = ?',
-      [session_id, input.key]
+    const tasks = getProjectTasks(project_id);
+    const historyByTask = new Map<string, TaskStatusChange[]>();
+    const rows = queryAll<TaskStatusChange>(
+      `SELECT h.task_id, h.from_status, h.to_status, h.changed_at
+       FROM task_status_history h JOIN tasks t ON t.id = h.task_id
+       WHERE t.project_id = ? ORDER BY h.changed_at, h.rowid`,
+      [project_id]
     );
+    for (const change of rows) {
+      historyByTask.set(change.task_id, [...(historyByTask.get(change.task_id) || []), change]);
+    }
 
-    if (existing) {
-      // Update existing
-      runAndSave(
-        'UPDATE session_memory SET value = ?, created_at = ?, expires_at = ? WHERE session_id = ? AND key = ?',
-        [input.value, now, expires_at, session_id, input.key]
-      );
-    } else {
-      // Insert new
-      runAndSave(
-        'INSERT INTO session_memory (id, session_id, key, value, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?)',
-        [id, session_id, input.key, input.value, now, expires_at]
-      );
+    return { success: true, report: buildTimeReport(tasks, historyByTask, clockNow(), stalled_after_hours) };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+// ============== MILESTONE TOOLS ==============
+
+function getProjectMilestones(project_id: string): Milestone[] {
+  return queryAll<Milestone>(
+    'SELECT * FROM milestones WHERE project_id = ? ORDER BY due_date IS NULL, due_date, created_at',
+    [project_id]
+  );
+}
+
+function milestoneInProject(milestone_id: string, project_id: string): boolean {
+  return queryOne<{ id: string }>('SELECT id FROM milestones WHERE id = ? AND project_id = ?', [milestone_id, project_id]) !== undefined;
+}
+
+export function createMilestone(input: CreateMilestoneInput): { success: boolean; milestone?: Milestone; error?: string } {
+  try {
+    if (!projectExists(input.project_id)) {
+      return { success: false, error: 'Project not found' };
     }
 
-    return { success: true };
+    const id = uuidv4();
+    const now = nowIso();
+    runAndSave(
+      `INSERT INTO milestones (id, project_id, name, description, due_date, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, input.project_id, input.name, input.description || null, input.due_date || null, now, now]
+    );
+
+    const milestone = queryOne<Milestone>('SELECT * FROM milestones WHERE id = ?', [id]);
+    emitDataChange({ entity: 'project', action: 'updated', id: input.project_id });
+    return { success: true, milestone };
   } catch (error) {
     return { success: false, error: String(error) };
   }
 }
 
-export function recall(input: RecallInput): { success: boolean; value?: string; error?: string } {
+export function updateMilestone(input: UpdateMilestoneInput): { success: boolean; milestone?: Milestone; error?: string } {
   try {
-    const session_id = input.session_id || 'default';
+    const existing = queryOne<Milestone>('SELECT * FROM milestones WHERE id = ?', [input.milestone_id]);
+    if (!existing) {
+      return { success: false, error: 'Milestone not found' };
+    }
+
+    const fields: string[] = [];
+    const values: any[] = [];
+    if (input.name) { fields.push('name = ?'); values.push(input.name); }
+    if (input.description !== undefined) { fields.push('description = ?'); values.push(input.description); }
+    if (input.due_date !== undefined) { fields.push('due_date = ?'); values.push(input.due_date || null); }
+
+    if (fields.length === 0) {
+      return { success: false, error: 'No updates provided' };
+    }
+
+    fields.push('updated_at = ?');
+    values.push(nowIso(), input.milestone_id);
+    runAndSave(`UPDATE milestones SET ${fields.join(', ')} WHERE id = ?`, values);
+
+    const milestone = queryOne<Milestone>('SELECT * FROM milestones WHERE id = ?', [input.milestone_id]);
+    emitDataChange({ entity: 'project', action: 'updated', id: existing.project_id });
+    return { success: true, milestone };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+// Milestones of a project, earliest due first, each with its rolled-up progress
+export function listMilestones(project_id: string): { success: boolean; milestones?: (Milestone & { progress: TaskProgress })[]; error?: string } {
+  try {
+    if (!projectExists(project_id)) {
+      return { success: false, error: 'Project not found' };
+    }
+
+    const tree = buildTaskTree(getProjectTasks(project_id), getProjectMilestones(project_id));
+    const milestones = tree.milestones.map(({ tasks, ...milestone }) => milestone);
+    return { success: true, milestones };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+// Delete a milestone; its tasks stay in the project without a milestone
+export function deleteMilestone(milestone_id: string): { success: boolean; unassigned_tasks?: number; error?: string } {
+  try {
+    const existing = queryOne<Milestone>('SELECT * FROM milestones WHERE id = ?', [milestone_id]);
+    if (!existing) {
+      return { success: false, error: 'Milestone not found' };
+    }
+
+    const assigned = queryOne<{ count: number }>('SELECT COUNT(*) as count FROM tasks WHERE milestone_id = ?', [milestone_id]);
+    // Tasks are detached by ON DELETE SET NULL
+    runAndSave('DELETE FROM milestones WHERE id = ?', [milestone_id]);
+    emitDataChange({ entity: 'project', action: 'updated', id: existing.project_id });
+    return { success: true, unassigned_tasks: assigned?.count || 0 };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+// ============== MEMORY TOOLS ==============
+
+interface MemoryRow {
+  id: string;
+  key: string;
+  value: string;
+  value_type: 'string' | 'json';
+  version: number;
+  expires_at: string | null;
+  ttl_seconds: number | null;
+  sliding: number;
+}
+
+export interface MemoryEntry {
+  key: string;
+  value?: MemoryValue;
+  version: number;
+  expires_at: string | null;
+  ttl_remaining_seconds: number | null;
+}
+
+// Strings are stored as is (as before typed values existed); anything else as JSON
+function encodeValue(value: MemoryValue): { value: string; value_type: MemoryRow['value_type'] } {
+  return typeof value === 'string'
+    ? { value, value_type: 'string' }
+    : { value: JSON.stringify(value), value_type: 'json' };
+}
+
+function decodeValue(row: MemoryRow): MemoryValue {
+  if (row.value_type !== 'json') return row.value;
+  try {
+    return JSON.parse(row.value);
+  } catch {
+    return row.value;
+  }
+}
+
+// Unexpired entry of a session; expired rows the sweeper has not removed yet are ignored
+function findMemory(session_id: string, key: string): MemoryRow | undefined {
+  return queryOne<MemoryRow>(
+    `SELECT * FROM session_memory
+     WHERE session_id = ? AND key = ?
+     AND (expires_at IS NULL OR expires_at > ?)`,
+    [session_id, key, nowIso()]
+  );
+}
+
+// Public shape of a row. Reading a sliding entry pushes its expiry back.
+function toMemoryEntry(session_id: string, row: MemoryRow, options: { slide: boolean; withValue: boolean }): MemoryEntry {
+  let expires_at = row.expires_at;
+  if (options.slide && row.sliding && row.ttl_seconds) {
+    expires_at = expiryFrom(row.ttl_seconds);
+    runAndSave('UPDATE session_memory SET expires_at = ? WHERE session_id = ? AND key = ?', [expires_at, session_id, row.key]);
+  }
+  return {
+    key: row.key,
+    ...(options.withValue ? { value: decodeValue(row) } : {}),
+    version: row.version,
+    expires_at,
+    ttl_remaining_seconds: remainingSeconds(expires_at)
+  };
+}
 
-    const result = queryOne<{ value: string }>(
-      `SELECT value FROM session_memory
-       WHERE session_id = ? AND key = ?
-       AND (expires_at IS NULL OR expires_at > datetime('now'))`,
-      [session_id, input.key]
+/**
+ * Insert or overwrite a key and bump its version. A key whose previous value
+ * had expired starts over at version 1, as if it were new.
+ */
+function writeMemory(session_id: string, entry: Omit<RememberInput, 'session_id'>): MemoryEntry {
+  const now = nowIso();
+  const ttl_seconds = entry.ttl_minutes ? ttlToSeconds(entry.ttl_minutes) : null;
+  const expires_at = ttl_seconds ? expiryFrom(ttl_seconds) : null;
+  const sliding = ttl_seconds && entry.sliding ? 1 : 0;
+  const encoded = encodeValue(entry.value);
+
+  // Check if key exists
+  const existing = queryOne<{ id: string }>(
+    'SELECT id FROM session_memory WHERE session_id = ? AND key = ?',
+    [session_id, entry.key]
+  );
+
+  if (existing) {
+    // Update existing
+    runAndSave(
+      `UPDATE session_memory
+       SET value = ?, value_type = ?, created_at = ?, expires_at = ?, ttl_seconds = ?, sliding = ?,
+           version = CASE WHEN expires_at IS NULL OR expires_at > ? THEN version + 1 ELSE 1 END
+       WHERE session_id = ? AND key = ?`,
+      [encoded.value, encoded.value_type, now, expires_at, ttl_seconds, sliding, now, session_id, entry.key]
+    );
+  } else {
+    // Insert new
+    runAndSave(
+      `INSERT INTO session_memory (id, session_id, key, value, value_type, version, created_at, expires_at, ttl_seconds, sliding)
+       VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?, ?)`,
+      [uuidv4(), session_id, entry.key, encoded.value, encoded.value_type, now, expires_at, ttl_seconds, sliding]
     );
+  }
+
+  const version = queryOne<{ version: number }>(
+    'SELECT version FROM session_memory WHERE session_id = ? AND key = ?',
+    [session_id, entry.key]
+  );
+  return { key: entry.key, version: version?.version || 1, expires_at, ttl_remaining_seconds: remainingSeconds(expires_at) };
+}
+
+export function remember(input: RememberInput): { success: boolean; version?: number; expires_at?: string | null; error?: string } {
+  try {
+    const entry = writeMemory(input.session_id || 'default', input);
+    return { success: true, version: entry.version, expires_at: entry.expires_at };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
 
-    if (!result) {
+export function recall(input: RecallInput): {
+  success: boolean;
+  value?: MemoryValue;
+  version?: number;
+  expires_at?: string | null;
+  ttl_remaining_seconds?: number | null;
+  error?: string;
+} {
+  try {
+    const session_id = input.session_id || 'default';
+    const row = findMemory(session_id, input.key);
+
+    if (!row) {
       return { success: false, error: 'Key not found or expired' };
     }
 
-    return { success: true, value: result.value };
+    const { key, ...entry } = toMemoryEntry(session_id, row, { slide: true, withValue: true });
+    return { success: true, ...entry };
   } catch (error) {
     return { success: false, error: String(error) };
   }
@@ -323,27 +1193,203 @@ export function forget(key: string, session_id?: string): { success: boolean; er
   }
 }
 
+export function rememberMany(input: RememberManyInput): { success: boolean; entries?: MemoryEntry[]; error?: string } {
+  try {
+    const session_id = input.session_id || 'default';
+    // All or nothing, and saved before another process can write in between
+    const entries = runExclusive(() => runInTransaction(() => input.entries.map(entry => writeMemory(session_id, entry))));
+    return { success: true, entries };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+export function recallMany(input: RecallManyInput): { success: boolean; entries?: MemoryEntry[]; missing?: string[]; error?: string } {
+  try {
+    const session_id = input.session_id || 'default';
+    const entries: MemoryEntry[] = [];
+    const missing: string[] = [];
+
+    for (const key of input.keys) {
+      const row = findMemory(session_id, key);
+      if (row) {
+        entries.push(toMemoryEntry(session_id, row, { slide: true, withValue: true }));
+      } else {
+        missing.push(key);
+      }
+    }
+
+    return { success: true, entries, missing };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+// Keys of a session, without their values unless asked; listing does not slide expiries
+export function listMemory(input: ListMemoryInput): { success: boolean; entries?: MemoryEntry[]; next_offset?: number | null; error?: string } {
+  try {
+    const session_id = input.session_id || 'default';
+    const filters = ['session_id = ?', '(expires_at IS NULL OR expires_at > ?)'];
+    const params: any[] = [session_id, nowIso()];
+
+    if (input.prefix) {
+      // substr() rather than LIKE, so % and _ in the prefix need no escaping
+      filters.push('substr(key, 1, ?) = ?');
+      params.push(input.prefix.length, input.prefix);
+    }
+    if (input.pattern) {
+      filters.push('key GLOB ?');
+      params.push(input.pattern);
+    }
+
+    const limit = input.limit || 100;
+    const offset = input.offset || 0;
+    const page = toPage(
+      queryAll<MemoryRow>(
+        `SELECT * FROM session_memory WHERE ${filters.join(' AND ')} ORDER BY key LIMIT ? OFFSET ?`,
+        [...params, limit + 1, offset]
+      ),
+      limit,
+      offset
+    );
+
+    const entries = page.items.map(row => toMemoryEntry(session_id, row, { slide: false, withValue: !!input.include_values }));
+    return { success: true, entries, next_offset: page.next_offset };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+export function clearSession(session_id?: string): { success: boolean; deleted?: number; error?: string } {
+  try {
+    const sid = session_id || 'default';
+    const count = queryOne<{ count: number }>('SELECT COUNT(*) as count FROM session_memory WHERE session_id = ?', [sid]);
+    runAndSave('DELETE FROM session_memory WHERE session_id = ?', [sid]);
+    return { success: true, deleted: count?.count || 0 };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Write the key only if its version is still expected_version (0: the key
+ * must not exist). Runs under the cross-process lock, so two agents racing on
+ * the same key cannot both succeed.
+ */
+export function compareAndSet(input: CompareAndSetInput): {
+  success: boolean;
+  entry?: MemoryEntry;
+  current?: MemoryEntry | null;
+  error?: string;
+} {
+  try {
+    const session_id = input.session_id || 'default';
+    return runExclusive(() => {
+      const row = findMemory(session_id, input.key);
+      const currentVersion = row ? row.version : 0;
+
+      if (currentVersion !== input.expected_version) {
+        return {
+          success: false,
+          error: `Version mismatch on "${input.key}": expected ${input.expected_version}, found ${currentVersion}`,
+          current: row ? toMemoryEntry(session_id, row, { slide: false, withValue: true }) : null
+        };
+      }
+
+      return { success: true, entry: writeMemory(session_id, input) };
+    });
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Add `by` to a numeric value atomically (see compareAndSet). A missing key
+ * starts from `initial`. The key keeps its expiry unless ttl_minutes is given.
+ */
+export function increment(input: IncrementInput): { success: boolean; value?: number; version?: number; error?: string } {
+  try {
+    const session_id = input.session_id || 'default';
+    const by = input.by ?? 1;
+
+    return runExclusive(() => {
+      const row = findMemory(session_id, input.key);
+      let current = input.initial ?? 0;
+
+      if (row) {
+        const value = decodeValue(row);
+        if (typeof value !== 'number') {
+          return { success: false, error: `Value of "${input.key}" is not a number` };
+        }
+        current = value;
+      }
+
+      const value = current + by;
+      if (row && input.ttl_minutes === undefined) {
+        runAndSave(
+          `UPDATE session_memory SET value = ?, value_type = 'json', version = version + 1 WHERE session_id = ? AND key = ?`,
+          [JSON.stringify(value), session_id, input.key]
+        );
+        return { success: true, value, version: row.version + 1 };
+      }
+
+      const entry = writeMemory(session_id, { key: input.key, value, ttl_minutes: input.ttl_minutes });
+      return { success: true, value, version: entry.version };
+    });
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
 // ============== DECISION LOG TOOLS ==============
 
 export function logDecision(input: LogDecisionInput): { success: boolean; decision_id?: string; error?: string } {
   try {
     const id = uuidv4();
-    const now = new Date().toISOString();
+    const now = nowIso();
 
-    runAndSave(
-      `INSERT INTO decision_log (id, project_id, decision_type, input_context, decision, confidence, reasoning, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        id,
-        input.project_id || null,
-        input.decision_type,
-        input.input_context || null,
-        input.decision,
-        input.confidence || null,
-        input.reasoning || null,
-        now
-      ]
-    );
+    let project_id = input.project_id || null;
+    const related_id = input.supersedes || input.amends;
+    if (related_id) {
+      const related = queryOne<{ id: string; project_id: string | null }>('SELECT id, project_id FROM decision_log WHERE id = ?', [related_id]);
+      if (!related) {
+        return { success: false, error: `Decision not found: ${related_id}` };
+      }
+      if (input.supersedes) {
+        const successor = findSuccessor(related_id);
+        if (successor) {
+          return { success: false, error: `Decision ${related_id} is already superseded by ${successor}; supersede that one instead` };
+        }
+      }
+      // A follow-up decision stays in the project of the one it revises
+      project_id = project_id || related.project_id;
+    }
+
+    const linkError = validateDecisionLinks(input.task_ids, input.context_ids);
+    if (linkError) {
+      return { success: false, error: linkError };
+    }
+
+    runInTransaction(() => {
+      runAndSave(
+        `INSERT INTO decision_log (id, project_id, decision_type, input_context, decision, confidence, reasoning, relation, related_decision_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          project_id,
+          input.decision_type,
+          input.input_context || null,
+          input.decision,
+          input.confidence ?? null,
+          input.reasoning || null,
+          input.supersedes ? 'supersedes' : input.amends ? 'amends' : null,
+          related_id || null,
+          now
+        ]
+      );
+      addDecisionLinks(id, input.task_ids, input.context_ids);
+    });
+    emitDataChange({ entity: 'decision', action: 'created', id, project_id });
 
     return { success: true, decision_id: id };
   } catch (error) {
@@ -351,21 +1397,243 @@ export function logDecision(input: LogDecisionInput): { success: boolean; decisi
   }
 }
 
-export function getDecisionHistory(project_id?: string, limit: number = 10): { success: boolean; decisions?: any[]; error?: string } {
+export function linkDecision(input: LinkDecisionInput): { success: boolean; decision?: DecisionLog; error?: string } {
   try {
-    let query = 'SELECT * FROM decision_log';
-    const params: any[] = [];
+    const row = queryOne<DecisionRow>('SELECT * FROM decision_log WHERE id = ?', [input.decision_id]);
+    if (!row) {
+      return { success: false, error: 'Decision not found' };
+    }
+
+    const linkError = validateDecisionLinks(input.task_ids, input.context_ids);
+    if (linkError) {
+      return { success: false, error: linkError };
+    }
+
+    runInTransaction(() => {
+      addDecisionLinks(input.decision_id, input.task_ids, input.context_ids);
+      for (const task_id of input.remove_task_ids || []) {
+        runAndSave('DELETE FROM decision_tasks WHERE decision_id = ? AND task_id = ?', [input.decision_id, task_id]);
+      }
+      for (const context_id of input.remove_context_ids || []) {
+        runAndSave('DELETE FROM decision_context WHERE decision_id = ? AND context_id = ?', [input.decision_id, context_id]);
+      }
+    });
+
+    return { success: true, decision: withDecisionRelations([toDecision(row)])[0] };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
 
-    if (project_id) {
-      query += ' WHERE project_id = ?';
-      params.push(project_id);
+/**
+ * Every decision in the lineage of one decision: walk back through what it
+ * supersedes or amends to the original, then forward through everything
+ * that revised it, oldest first. `current` is the end of the supersession
+ * chain, the decision that still holds.
+ */
+export function getDecisionChain(decision_id: string): {
+  success: boolean;
+  chain?: DecisionLog[];
+  current?: string;
+  error?: string;
+} {
+  try {
+    const start = queryOne<DecisionRow>('SELECT * FROM decision_log WHERE id = ?', [decision_id]);
+    if (!start) {
+      return { success: false, error: 'Decision not found' };
     }
 
-    query += ' ORDER BY created_at DESC LIMIT ?';
-    params.push(limit);
+    let root: DecisionRow = start;
+    const seen = new Set<string>([root.id]);
+    while (root.related_decision_id && !seen.has(root.related_decision_id)) {
+      const parent: DecisionRow | undefined = queryOne<DecisionRow>('SELECT * FROM decision_log WHERE id = ?', [root.related_decision_id]);
+      if (!parent) break;
+      seen.add(parent.id);
+      root = parent;
+    }
+
+    const lineage: DecisionRow[] = [root];
+    const visited = new Set<string>([root.id]);
+    for (let i = 0; i < lineage.length; i++) {
+      const children = queryAll<DecisionRow>('SELECT * FROM decision_log WHERE related_decision_id = ?', [lineage[i].id]);
+      for (const child of children) {
+        if (visited.has(child.id)) continue;
+        visited.add(child.id);
+        lineage.push(child);
+      }
+    }
+
+    let current = root.id;
+    for (let next = findSuccessor(current); next && next !== root.id; next = findSuccessor(current)) {
+      current = next;
+    }
+
+    const chain = withDecisionRelations(lineage.map(toDecision))
+      .sort((a, b) => a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : 0);
+    return { success: true, chain, current };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+// Decision as stored: was_correct is an INTEGER (0/1) or NULL
+type DecisionRow = Omit<DecisionLog, 'was_correct'> & { was_correct: number | null };
+
+function toDecision(row: DecisionRow): DecisionLog {
+  return { ...row, was_correct: row.was_correct === null ? null : row.was_correct === 1 };
+}
+
+// ID of the decision that supersedes this one, if any
+function findSuccessor(decision_id: string): string | undefined {
+  return queryOne<{ id: string }>(
+    `SELECT id FROM decision_log WHERE relation = 'supersedes' AND related_decision_id = ? ORDER BY created_at LIMIT 1`,
+    [decision_id]
+  )?.id;
+}
+
+function validateDecisionLinks(task_ids: string[] = [], context_ids: string[] = []): string | null {
+  const unknownTasks = task_ids.filter(id => !queryOne('SELECT id FROM tasks WHERE id = ?', [id]));
+  if (unknownTasks.length > 0) {
+    return `Unknown task IDs: ${unknownTasks.join(', ')}`;
+  }
+  const unknownContext = context_ids.filter(id => !queryOne('SELECT id FROM context WHERE id = ?', [id]));
+  if (unknownContext.length > 0) {
+    return `Unknown context IDs: ${unknownContext.join(', ')}`;
+  }
+  return null;
+}
+
+function addDecisionLinks(decision_id: string, task_ids: string[] = [], context_ids: string[] = []): void {
+  for (const task_id of task_ids) {
+    runAndSave('INSERT OR IGNORE INTO decision_tasks (decision_id, task_id) VALUES (?, ?)', [decision_id, task_id]);
+  }
+  for (const context_id of context_ids) {
+    runAndSave('INSERT OR IGNORE INTO decision_context (decision_id, context_id) VALUES (?, ?)', [decision_id, context_id]);
+  }
+}
+
+// Attach superseded_by and the linked task and context IDs
+function withDecisionRelations(decisions: DecisionLog[]): DecisionLog[] {
+  if (decisions.length === 0) return decisions;
+
+  const ids = decisions.map(d => d.id);
+  const placeholders = ids.map(() => '?').join(', ');
+  const tasks = queryAll<{ decision_id: string; task_id: string }>(
+    `SELECT decision_id, task_id FROM decision_tasks WHERE decision_id IN (${placeholders})`, ids
+  );
+  const context = queryAll<{ decision_id: string; context_id: string }>(
+    `SELECT decision_id, context_id FROM decision_context WHERE decision_id IN (${placeholders})`, ids
+  );
+  const successors = queryAll<{ id: string; related_decision_id: string }>(
+    `SELECT id, related_decision_id FROM decision_log
+     WHERE relation = 'supersedes' AND related_decision_id IN (${placeholders}) ORDER BY created_at DESC`, ids
+  );
+
+  // Descending order: the earliest successor is written last and wins
+  const supersededBy = new Map(successors.map(s => [s.related_decision_id, s.id]));
+  return decisions.map(d => ({
+    ...d,
+    superseded_by: supersededBy.get(d.id) || null,
+    task_ids: tasks.filter(t => t.decision_id === d.id).map(t => t.task_id),
+    context_ids: context.filter(c => c.decision_id === d.id).map(c => c.context_id)
+  }));
+}
+
+// WHERE clause shared by the history and the calibration report
+function decisionFilters(input: Omit<GetDecisionsInput, 'limit' | 'offset'>): { where: string; params: any[] } {
+  const filters: string[] = [];
+  const params: any[] = [];
+
+  if (input.project_id) { filters.push('project_id = ?'); params.push(input.project_id); }
+  if (input.decision_type) { filters.push('decision_type = ?'); params.push(input.decision_type); }
+  // Stored timestamps are ISO strings, so normalized bounds compare correctly as text
+  if (input.since) { filters.push('created_at >= ?'); params.push(new Date(input.since).toISOString()); }
+  if (input.until) { filters.push('created_at < ?'); params.push(new Date(input.until).toISOString()); }
+  if (input.min_confidence !== undefined) { filters.push('confidence >= ?'); params.push(input.min_confidence); }
+  if (input.max_confidence !== undefined) { filters.push('confidence <= ?'); params.push(input.max_confidence); }
+  if (input.outcome === 'correct') filters.push('was_correct = 1');
+  if (input.outcome === 'incorrect') filters.push('was_correct = 0');
+  if (input.outcome === 'unknown') filters.push('was_correct IS NULL');
+  if (input.task_id) { filters.push('id IN (SELECT decision_id FROM decision_tasks WHERE task_id = ?)'); params.push(input.task_id); }
+  if (input.context_id) { filters.push('id IN (SELECT decision_id FROM decision_context WHERE context_id = ?)'); params.push(input.context_id); }
+  if (input.include_superseded === false) {
+    filters.push(`NOT EXISTS (SELECT 1 FROM decision_log s WHERE s.relation = 'supersedes' AND s.related_decision_id = decision_log.id)`);
+  }
+
+  return { where: filters.length > 0 ? ` WHERE ${filters.join(' AND ')}` : '', params };
+}
+
+// Superseded decisions are hidden unless include_superseded is set
+export function getDecisionHistory(input: GetDecisionsInput = {}): {
+  success: boolean;
+  decisions?: DecisionLog[];
+  next_offset?: number | null;
+  error?: string;
+} {
+  try {
+    const { where, params } = decisionFilters({ ...input, include_superseded: input.include_superseded ?? false });
+    const limit = input.limit || 10;
+    const offset = input.offset || 0;
+
+    const page = toPage(
+      queryAll<DecisionRow>(`SELECT * FROM decision_log${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`, [...params, limit + 1, offset]),
+      limit,
+      offset
+    );
+    return { success: true, decisions: withDecisionRelations(page.items.map(toDecision)), next_offset: page.next_offset };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+// Record whether a decision turned out right; recording again replaces the outcome
+export function recordOutcome(input: RecordOutcomeInput): { success: boolean; decision?: DecisionLog; error?: string } {
+  try {
+    const existing = queryOne<{ id: string }>('SELECT id FROM decision_log WHERE id = ?', [input.decision_id]);
+    if (!existing) {
+      return { success: false, error: 'Decision not found' };
+    }
+
+    runAndSave(
+      'UPDATE decision_log SET was_correct = ?, outcome_note = ?, outcome_at = ? WHERE id = ?',
+      [input.was_correct ? 1 : 0, input.note || null, nowIso(), input.decision_id]
+    );
+
+    const row = queryOne<DecisionRow>('SELECT * FROM decision_log WHERE id = ?', [input.decision_id]);
+    return { success: true, decision: row && toDecision(row) };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Per decision type: how often decisions with an outcome were right, and how
+ * that compares with the confidence stated when they were logged.
+ */
+export function getDecisionCalibration(
+  input: Omit<GetDecisionsInput, 'outcome' | 'limit' | 'offset'> = {},
+  bins: number = 5
+): { success: boolean; overall?: CalibrationReport; by_type?: CalibrationReport[]; error?: string } {
+  try {
+    const { where, params } = decisionFilters(input);
+    const rows = queryAll<{ decision_type: string; confidence: number | null; was_correct: number | null }>(
+      `SELECT decision_type, confidence, was_correct FROM decision_log${where}`,
+      params
+    );
+
+    const report = (type: string, group: typeof rows) => buildCalibrationReport(
+      type,
+      group.length,
+      group.filter(r => r.was_correct !== null).map(r => ({ confidence: r.confidence, was_correct: r.was_correct === 1 })),
+      bins
+    );
 
-    const decisions = queryAll(query, params);
-    return { success: true, decisions };
+    const types = [...new Set(rows.map(r => r.decision_type))].sort();
+    return {
+      success: true,
+      overall: report('(all)', rows),
+      by_type: types.map(type => report(type, rows.filter(r => r.decision_type === type)))
+    };
   } catch (error) {
     return { success: false, error: String(error) };
   }
@@ -0,0 +1,64 @@
+/**
+ * AuraCore MCP - Session Memory TTL
+ * Expiry arithmetic and the background sweeper that removes expired entries
+ */
+import { queryOne, runAndSave, refreshFromDisk } from './database';
+import { now, nowIso } from './clock';
+
+const SWEEP_INTERVAL_MS = Number(process.env.AURACORE_SWEEP_INTERVAL_MS) || 60000;
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+export function ttlToSeconds(ttl_minutes: number): number {
+  return Math.max(1, Math.round(ttl_minutes * 60));
+}
+
+// Expiry timestamp, in the same ISO format as every other stored timestamp
+export function expiryFrom(ttl_seconds: number, from: Date = now()): string {
+  return new Date(from.getTime() + ttl_seconds * 1000).toISOString();
+}
+
+// Whole seconds left before expiry (0 once expired), null without expiry
+export function remainingSeconds(expires_at: string | null | undefined, at: Date = now()): number | null {
+  if (!expires_at) return null;
+  return Math.max(0, Math.ceil((Date.parse(expires_at) - at.getTime()) / 1000));
+}
+
+/**
+ * Delete expired session memory entries; returns how many were removed.
+ * Writes nothing when there is nothing to remove, so an idle server does not
+ * rewrite the database file every interval.
+ */
+export function sweepExpiredMemory(): number {
+  const cutoff = nowIso();
+  const expired = queryOne<{ count: number }>(
+    'SELECT COUNT(*) as count FROM session_memory WHERE expires_at IS NOT NULL AND expires_at <= ?',
+    [cutoff]
+  );
+  if (!expired || expired.count === 0) return 0;
+
+  runAndSave('DELETE FROM session_memory WHERE expires_at IS NOT NULL AND expires_at <= ?', [cutoff]);
+  return expired.count;
+}
+
+export function startTtlSweeper(intervalMs: number = SWEEP_INTERVAL_MS): void {
+  stopTtlSweeper();
+  sweepTimer = setInterval(() => {
+    try {
+      // Another server process may have written since the last request
+      refreshFromDisk();
+      sweepExpiredMemory();
+    } catch (error) {
+      console.error(`TTL sweep failed: ${String(error)}`);
+    }
+  }, intervalMs);
+  // The sweeper alone must not keep the process alive
+  sweepTimer.unref();
+}
+
+export function stopTtlSweeper(): void {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+}
@@ -9,13 +9,19 @@ export interface Project {
   type: 'feature' | 'bugfix' | 'refactor' | 'spike' | 'maintenance';
   status: 'active' | 'paused' | 'completed' | 'archived';
   workspace_path?: string;
+  group_name?: string;    // Group or team whose context the project inherits
   created_at: string;
   updated_at: string;
 }
 
+// Layers of context, lowest first: a project overrides its group, a group overrides global
+export type ContextScope = 'global' | 'group' | 'project';
+
 export interface Context {
   id: string;
   project_id?: string;
+  group_name?: string;    // Group-level entry (no project_id)
+  key?: string;           // Override key; entries without one override by name
   type: 'business_rule' | 'pattern' | 'convention' | 'glossary' | 'document' | 'decision';
   name: string;
   content: string;
@@ -26,6 +32,22 @@ export interface Context {
   updated_at: string;
 }
 
+// A context entry as it stood after one change
+export interface ContextRevision {
+  context_id: string;
+  revision: number;                         // 1 for the first version, +1 per change
+  action: 'created' | 'updated' | 'deleted';
+  project_id: string | null;
+  group_name: string | null;
+  key: string | null;
+  type: Context['type'];
+  name: string;
+  content: string;
+  category: string | null;
+  priority: Context['priority'];
+  changed_at: string;
+}
+
 export interface Task {
   id: string;
   project_id: string;
@@ -39,15 +61,65 @@ export interface Task {
   created_at: string;
   updated_at: string;
   completed_at?: string;
+  archived_at?: string;
+  parent_id?: string | null;      // Task this one is a subtask of
+  milestone_id?: string | null;   // Same as the parent's for subtasks
+}
+
+export interface Milestone {
+  id: string;
+  project_id: string;
+  name: string;
+  description?: string;
+  due_date?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Counts leaf tasks: a task with subtasks is as far along as its subtasks
+export interface TaskProgress {
+  total: number;
+  completed: number;
+  percent_complete: number;
+  by_status: Record<Task['status'], number>;
+}
+
+export interface TaskNode extends Task {
+  progress: TaskProgress;
+  subtasks: TaskNode[];
+}
+
+export interface MilestoneNode extends Milestone {
+  progress: TaskProgress;
+  tasks: TaskNode[];
+}
+
+export interface TaskTree {
+  progress: TaskProgress;
+  milestones: MilestoneNode[];
+  tasks: TaskNode[];              // Top-level tasks outside any milestone
+}
+
+export interface TaskStatusChange {
+  task_id: string;
+  from_status: Task['status'] | null;   // null: the task was created
+  to_status: Task['status'];
+  changed_at: string;
 }
 
+// Session memory values: plain strings, or any JSON value returned typed
+export type MemoryValue = string | number | boolean | null | MemoryValue[] | { [key: string]: MemoryValue };
+
 export interface SessionMemory {
   id: string;
   session_id: string;
   key: string;
-  value: string;
+  value: MemoryValue;
+  version: number;
   created_at: string;
   expires_at?: string;
+  ttl_seconds?: number;
+  sliding?: boolean;
 }
 
 export interface DecisionLog {
@@ -58,7 +130,14 @@ export interface DecisionLog {
   decision: string;
   confidence?: number;
   reasoning?: string;
-  was_correct?: boolean;
+  was_correct?: boolean | null;   // null until an outcome is recorded
+  outcome_note?: string;
+  outcome_at?: string;
+  relation?: 'supersedes' | 'amends' | null;
+  related_decision_id?: string | null;
+  superseded_by?: string | null;
+  task_ids?: string[];
+  context_ids?: string[];
   created_at: string;
 }
 
@@ -68,23 +147,66 @@ export interface CreateProjectInput {
   description?: string;
   type?: Project['type'];
   workspace_path?: string;
+  group_name?: string;
 }
 
 export interface StoreContextInput {
   project_id?: string;
+  group_name?: string;
+  key?: string;
   type: Context['type'];
   name: string;
   content: string;
   category?: string;
   priority?: Context['priority'];
+  on_duplicate?: DuplicateAction;   // What to do when a similar entry exists in the same layer
+}
+
+// upsert: update the closest existing entry; skip: keep it; create: add a new entry anyway
+export type DuplicateAction = 'upsert' | 'skip' | 'create';
+
+// An existing entry that looks like the one being stored
+export interface ContextDuplicate {
+  id: string;
+  name: string;
+  type: Context['type'];
+  scope: ContextScope;
+  content: string;
+  match: 'identical' | 'same_key' | 'similar';   // Same content, same key (or name), or close name/content
+  name_similarity: number;      // 0-1
+  content_similarity: number;   // 0-1
 }
 
 export interface QueryContextInput {
   project_id?: string;
+  group_name?: string;          // Group layer; defaults to the project's group
+  include_shadowed?: boolean;   // Also return entries overridden by a higher layer
   type?: Context['type'];
   category?: string;
   search?: string;
+  as_of?: string;     // Entries as they stood at this time, from their revisions
   limit?: number;
+  offset?: number;
+}
+
+export interface UpdateContextInput {
+  context_id: string;
+  name?: string;
+  content?: string;
+  type?: Context['type'];
+  category?: string | null;
+  priority?: Context['priority'];
+  project_id?: string | null;
+  group_name?: string | null;
+  key?: string | null;
+}
+
+export interface ContextSearchResult extends Context {
+  score?: number;     // BM25 relevance x priority weight (search only)
+  snippet?: string;   // Excerpt with **highlighted** matches (search only)
+  revision?: number;  // Revision shown (as_of only)
+  scope?: ContextScope;
+  shadowed_by?: string;  // ID of the entry overriding this one (include_shadowed only)
 }
 
 export interface CreateTaskInput {
@@ -95,6 +217,8 @@ export interface CreateTaskInput {
   type?: Task['type'];
   depends_on?: string[];
   estimated_time?: string;
+  parent_id?: string;
+  milestone_id?: string;
 }
 
 export interface UpdateTaskInput {
@@ -102,13 +226,42 @@ export interface UpdateTaskInput {
   status?: Task['status'];
   priority?: Task['priority'];
   description?: string;
+  depends_on?: string[];
+  parent_id?: string | null;      // null makes it a top-level task
+  milestone_id?: string | null;   // Top-level tasks only; null removes it from its milestone
+  complete_subtasks?: boolean;    // Completing a task with open subtasks completes them too
+}
+
+export interface CreateMilestoneInput {
+  project_id: string;
+  name: string;
+  description?: string;
+  due_date?: string;
+}
+
+export interface UpdateMilestoneInput {
+  milestone_id: string;
+  name?: string;
+  description?: string;
+  due_date?: string | null;
+}
+
+export interface ListTasksInput {
+  project_id: string;
+  status?: Task['status'];
+  type?: Task['type'];
+  priority?: Task['priority'];
+  include_archived?: boolean;
+  limit?: number;
+  offset?: number;
 }
 
 export interface RememberInput {
   key: string;
-  value: string;
+  value: MemoryValue;
   session_id?: string;
   ttl_minutes?: number;
+  sliding?: boolean;    // Each recall pushes the expiry back by the full TTL
 }
 
 export interface RecallInput {
@@ -116,6 +269,65 @@ export interface RecallInput {
   session_id?: string;
 }
 
+export interface RememberManyInput {
+  entries: Omit<RememberInput, 'session_id'>[];
+  session_id?: string;
+}
+
+export interface RecallManyInput {
+  keys: string[];
+  session_id?: string;
+}
+
+export interface ListMemoryInput {
+  session_id?: string;
+  prefix?: string;
+  pattern?: string;           // Glob: * any run, ? one character, [abc] a set
+  include_values?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface CompareAndSetInput extends RememberInput {
+  expected_version: number;   // 0 = the key must not exist
+}
+
+export interface IncrementInput {
+  key: string;
+  by?: number;
+  initial?: number;           // Starting value when the key does not exist
+  session_id?: string;
+  ttl_minutes?: number;
+}
+
+export interface SwitchWorkspaceInput {
+  name?: string;
+  repo_path?: string;
+  project_id?: string;
+  create?: boolean;
+}
+
+export interface GetDecisionsInput {
+  project_id?: string;
+  decision_type?: string;
+  since?: string;               // ISO date or timestamp, inclusive
+  until?: string;               // ISO date or timestamp, exclusive
+  min_confidence?: number;
+  max_confidence?: number;
+  outcome?: 'correct' | 'incorrect' | 'unknown';
+  task_id?: string;             // Decisions linked to this task
+  context_id?: string;          // Decisions linked to this context entry
+  include_superseded?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface RecordOutcomeInput {
+  decision_id: string;
+  was_correct: boolean;
+  note?: string;
+}
+
 export interface LogDecisionInput {
   project_id?: string;
   decision_type: string;
@@ -123,4 +335,16 @@ export interface LogDecisionInput {
   decision: string;
   confidence?: number;
   reasoning?: string;
+  supersedes?: string;          // Decision this one replaces
+  amends?: string;              // Decision this one refines without replacing it
+  task_ids?: string[];
+  context_ids?: string[];
+}
+
+export interface LinkDecisionInput {
+  decision_id: string;
+  task_ids?: string[];
+  context_ids?: string[];
+  remove_task_ids?: string[];
+  remove_context_ids?: string[];
 }
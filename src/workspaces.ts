@@ -0,0 +1,79 @@
+/**
+ * AuraCore MCP - Workspace Tools
+ * Named workspaces and per-repo stores, each backed by its own database file
+ */
+import * as fs from 'fs';
+import { queryOne, switchDatabase, getCurrentWorkspace } from './database';
+import {
+  WorkspaceTarget, DEFAULT_WORKSPACE, getDataDir, listNamedWorkspaces, namedWorkspace, repoWorkspace
+} from './config';
+import { emitDataChange } from './changes';
+import { Project, SwitchWorkspaceInput } from './types';
+
+// Cleared by the HTTP transport: its clients share the process's database, so one switching it would move them all
+let switchingAllowed = true;
+
+export function setWorkspaceSwitching(allowed: boolean): void {
+  switchingAllowed = allowed;
+}
+
+export function listWorkspaces(): {
+  success: boolean;
+  current?: WorkspaceTarget;
+  data_dir?: string;
+  workspaces?: { name: string; db_path: string; current: boolean; size_bytes: number | null }[];
+  error?: string;
+} {
+  try {
+    const current = getCurrentWorkspace() || undefined;
+    const workspaces = listNamedWorkspaces().map(name => {
+      const target = namedWorkspace(name);
+      const size = fs.existsSync(target.db_path) ? fs.statSync(target.db_path).size : null;
+      return { name, db_path: target.db_path, current: target.db_path === current?.db_path, size_bytes: size };
+    });
+
+    return { success: true, current, data_dir: getDataDir(), workspaces };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+export function switchWorkspace(input: SwitchWorkspaceInput): { success: boolean; workspace?: WorkspaceTarget; error?: string } {
+  try {
+    if (!switchingAllowed) {
+      return {
+        success: false,
+        error: 'Switching workspaces is disabled over HTTP: every client shares the server\'s database. ' +
+          'Start a server per workspace (--workspace or --repo) instead'
+      };
+    }
+
+    let target: WorkspaceTarget;
+
+    if (input.name) {
+      target = namedWorkspace(input.name);
+      if (input.name !== DEFAULT_WORKSPACE && !fs.existsSync(target.db_path) && !input.create) {
+        return { success: false, error: `Workspace "${input.name}" does not exist. Pass create: true to create it.` };
+      }
+    } else if (input.repo_path) {
+      target = repoWorkspace(input.repo_path, input.create);
+    } else if (input.project_id) {
+      const project = queryOne<Project>('SELECT * FROM projects WHERE id = ?', [input.project_id]);
+      if (!project) {
+        return { success: false, error: 'Project not found' };
+      }
+      if (!project.workspace_path) {
+        return { success: false, error: 'Project has no workspace_path to locate a per-repo store from' };
+      }
+      target = repoWorkspace(project.workspace_path, input.create);
+    } else {
+      return { success: false, error: 'Provide one of name, repo_path or project_id' };
+    }
+
+    switchDatabase(target);
+    emitDataChange({ entity: 'workspace', action: 'updated', id: target.name });
+    return { success: true, workspace: target };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
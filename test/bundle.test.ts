@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { openTempDatabase, tempDir } from './helpers';
+import { setClock } from '../src/clock';
+import { getDb, queryAll, queryOne } from '../src/database';
+import { createProject, storeContext, createMilestone, createTask, updateTask, logDecision, getTaskHistory } from '../src/tools';
+import { buildBundle, serializeBundle, parseBundle, importBundle, exportBundle, Bundle, BundleFormat } from '../src/bundle';
+import { callTool } from '../src/registry';
+import { Task } from '../src/types';
+
+let source: { project: string; contexts: string[]; milestone: string; tasks: Record<string, string>; decisions: string[] };
+let restoreClock: () => void;
+
+beforeAll(async () => {
+  await openTempDatabase();
+  // Distinct timestamps keep the export order (and decision lineage) deterministic
+  let time = Date.parse('2026-03-01T09:00:00.000Z');
+  restoreClock = setClock({ now: () => new Date(time += 1000) });
+
+  const project = createProject({ name: 'Shop', group_name: 'web' }).project!.id;
+  const contexts = [
+    storeContext({ project_id: project, type: 'convention', name: 'Money', content: 'Amounts are integers in cents', key: 'money' }),
+    storeContext({ project_id: project, type: 'glossary', name: 'Basket', content: 'The list of items a customer is about to buy' })
+  ].map(result => result.context!.id);
+  const milestone = createMilestone({ project_id: project, name: 'Beta' }).milestone!.id;
+  const checkout = createTask({ project_id: project, title: 'Checkout', milestone_id: milestone }).task!.id;
+  const payment = createTask({ project_id: project, title: 'Payment form', parent_id: checkout }).task!.id;
+  const receipt = createTask({ project_id: project, title: 'Receipt email', depends_on: [checkout] }).task!.id;
+  // Two working periods, so actual time and cycle time differ
+  for (const status of ['in_progress', 'blocked', 'in_progress', 'completed'] as const) updateTask({ task_id: payment, status });
+  const first = logDecision({ project_id: project, decision_type: 'architecture', decision: 'Use Stripe', task_ids: [checkout], context_ids: [contexts[0]] }).decision_id!;
+  const second = logDecision({ project_id: project, decision_type: 'architecture', decision: 'Use Stripe Checkout', supersedes: first }).decision_id!;
+  source = { project, contexts, milestone, tasks: { checkout, payment, receipt }, decisions: [first, second] };
+});
+
+afterAll(() => restoreClock());
+
+function roundTrip(format: BundleFormat): Bundle {
+  return parseBundle(serializeBundle(buildBundle(source.project), format));
+}
+
+const tasksOf = (project_id: string) => queryAll<Omit<Task, 'depends_on'> & { depends_on: string | null }>('SELECT * FROM tasks WHERE project_id = ?', [project_id]);
+const byTitle = <T extends { title: string }>(tasks: T[], title: string) => tasks.find(task => task.title === title)!;
+
+describe('bundle export and import', () => {
+  it('reads back the same bundle from JSON and YAML', () => {
+    const bundle = buildBundle(source.project);
+    const json = parseBundle(serializeBundle(bundle, 'json'));
+    expect(parseBundle(serializeBundle(bundle, 'yaml'))).toEqual(json);
+    expect(json.tasks).toHaveLength(3);
+    expect(json.decisions.map(d => d.decision)).toEqual(['Use Stripe', 'Use Stripe Checkout']);
+  });
+
+  it.each(['json', 'yaml'] as const)('imports a %s bundle with new IDs and remapped references', format => {
+    const target = createProject({ name: `Copy ${format}` }).project!.id;
+    const report = importBundle(roundTrip(format), { project_id: target });
+    expect(report.created).toEqual({ context: 2, milestones: 1, tasks: 3, decisions: 2 });
+
+    const tasks = tasksOf(target);
+    const checkout = byTitle(tasks, 'Checkout');
+    expect(tasks.map(task => task.id)).not.toContain(source.tasks.checkout);
+    expect(byTitle(tasks, 'Payment form').parent_id).toBe(checkout.id);
+    expect(JSON.parse(byTitle(tasks, 'Receipt email').depends_on!)).toEqual([checkout.id]);
+
+    const milestone = queryOne<{ id: string }>('SELECT id FROM milestones WHERE project_id = ?', [target])!.id;
+    expect(milestone).not.toBe(source.milestone);
+    expect(checkout.milestone_id).toBe(milestone);
+
+    const money = queryOne<{ id: string; key: string }>('SELECT id, key FROM context WHERE project_id = ? AND name = ?', [target, 'Money'])!;
+    expect(money.key).toBe('money');
+    const decisions = queryAll<{ id: string; decision: string; relation: string | null; related_decision_id: string | null }>(
+      'SELECT id, decision, relation, related_decision_id FROM decision_log WHERE project_id = ? ORDER BY created_at', [target]
+    );
+    expect(decisions.map(d => d.id)).not.toContain(source.decisions[0]);
+    expect(decisions[1]).toMatchObject({ relation: 'supersedes', related_decision_id: decisions[0].id });
+    expect(queryAll('SELECT task_id FROM decision_tasks WHERE decision_id = ?', [decisions[0].id])).toEqual([{ task_id: checkout.id }]);
+    expect(queryAll('SELECT context_id FROM decision_context WHERE decision_id = ?', [decisions[0].id])).toEqual([{ context_id: money.id }]);
+  });
+
+  it('keeps the status history of tasks', () => {
+    const target = createProject({ name: 'History target' }).project!.id;
+    importBundle(roundTrip('yaml'), { project_id: target });
+
+    const history = (task_id: string) => getTaskHistory(task_id).history!.map(({ task_id: _, ...change }) => change);
+    const imported = byTitle(tasksOf(target), 'Payment form');
+    expect(history(imported.id)).toEqual(history(source.tasks.payment));
+    expect(history(imported.id).map(change => change.to_status)).toEqual(['pending', 'in_progress', 'blocked', 'in_progress', 'completed']);
+  });
+
+  it('rebuilds creation and completion from the task rows of a version 1 bundle', () => {
+    const bundle = roundTrip('json');
+    const legacy = { ...bundle, version: 1, tasks: bundle.tasks.map(({ status_history, ...task }) => task) };
+    const target = createProject({ name: 'Legacy target' }).project!.id;
+    importBundle(parseBundle(JSON.stringify(legacy)), { project_id: target });
+
+    const payment = byTitle(tasksOf(target), 'Payment form');
+    expect(getTaskHistory(payment.id).history!.map(change => [change.from_status, change.to_status, change.changed_at])).toEqual([
+      [null, 'pending', payment.created_at],
+      ['pending', 'completed', payment.completed_at]
+    ]);
+  });
+
+  it('skips records that already exist when merging', () => {
+    const bundle = roundTrip('json');
+    const target = createProject({ name: 'Merge target' }).project!.id;
+    importBundle(bundle, { project_id: target });
+
+    const again = importBundle(bundle, { project_id: target, mode: 'merge' });
+    expect(again.created).toEqual({ context: 0, milestones: 0, tasks: 0, decisions: 0 });
+    expect(again.skipped.tasks.sort()).toEqual(['Checkout', 'Payment form', 'Receipt email']);
+    expect(tasksOf(target)).toHaveLength(3);
+  });
+
+  it('replaces the target content in replace mode', () => {
+    const bundle = roundTrip('yaml');
+    const target = createProject({ name: 'Replace target' }).project!.id;
+    storeContext({ project_id: target, type: 'business_rule', name: 'Old rule', content: 'Shipping is always free' });
+    createTask({ project_id: target, title: 'Old task' });
+
+    const report = importBundle(bundle, { project_id: target, mode: 'replace' });
+    expect(report.replaced).toMatchObject({ context: 1, tasks: 1 });
+    expect(tasksOf(target).map(task => task.title).sort()).toEqual(['Checkout', 'Payment form', 'Receipt email']);
+    expect(queryAll('SELECT name FROM context WHERE project_id = ? ORDER BY name', [target])).toEqual([{ name: 'Basket' }, { name: 'Money' }]);
+  });
+
+  it('leaves the target untouched when a replace fails part way', () => {
+    const bundle = roundTrip('json');
+    const target = createProject({ name: 'Failing target' }).project!.id;
+    storeContext({ project_id: target, type: 'business_rule', name: 'Kept rule', content: 'Orders ship within two days' });
+    createTask({ project_id: target, title: 'Kept task' });
+
+    // Fails the import after the old rows are deleted and the context and tasks are inserted
+    getDb().run(`CREATE TEMP TRIGGER fail_decisions BEFORE INSERT ON decision_log BEGIN SELECT RAISE(ABORT, 'disk full'); END`);
+    try {
+      expect(() => importBundle(bundle, { project_id: target, mode: 'replace' })).toThrow('disk full');
+    } finally {
+      getDb().run('DROP TRIGGER fail_decisions');
+    }
+
+    expect(tasksOf(target).map(task => task.title)).toEqual(['Kept task']);
+    expect(queryAll('SELECT name FROM context WHERE project_id = ?', [target])).toEqual([{ name: 'Kept rule' }]);
+    expect(queryAll('SELECT id FROM milestones WHERE project_id = ?', [target])).toEqual([]);
+  });
+});
+
+describe('bundle files from the MCP tools', () => {
+  let dataDir: string;
+  let workspace: string;
+  let project_id: string;
+
+  beforeAll(() => {
+    dataDir = tempDir();
+    process.env.AURACORE_DATA_DIR = dataDir;
+    workspace = tempDir();
+    project_id = createProject({ name: 'Files', workspace_path: workspace }).project!.id;
+  });
+
+  afterAll(() => {
+    delete process.env.AURACORE_DATA_DIR;
+  });
+
+  it('writes and reads under the workspace, relative paths included, and under the data directory', async () => {
+    expect(await callTool('auracore_export_bundle', { project_id, path: 'exports/files.yaml' }))
+      .toMatchObject({ success: true, path: path.join(workspace, 'exports', 'files.yaml') });
+    const inDataDir = path.join(dataDir, 'files.json');
+    expect(await callTool('auracore_export_bundle', { project_id, path: inDataDir })).toMatchObject({ success: true, path: inDataDir });
+
+    expect(await callTool('auracore_import_bundle', { project_id, path: 'exports/files.yaml' })).toMatchObject({ success: true });
+    expect(await callTool('auracore_import_bundle', { path: inDataDir })).toMatchObject({ success: true });
+  });
+
+  it('refuses paths outside them, through ../ or a symlink', async () => {
+    const outside = tempDir();
+    fs.writeFileSync(path.join(outside, 'bundle.json'), serializeBundle(buildBundle(project_id)));
+    fs.symlinkSync(outside, path.join(workspace, 'link'));
+    const error = `Bundle files must be inside ${workspace} or ${dataDir}`;
+
+    for (const target of [path.join(outside, 'out.json'), '../out.json', 'link/out.json']) {
+      expect(await callTool('auracore_export_bundle', { project_id, path: target })).toEqual({ success: false, error: `${error}: ${target}` });
+    }
+    expect(fs.readdirSync(outside)).toEqual(['bundle.json']);
+
+    expect(await callTool('auracore_import_bundle', { project_id, path: 'link/bundle.json' }))
+      .toEqual({ success: false, error: `${error}: link/bundle.json` });
+    // Without a project, only the data directory
+    expect(await callTool('auracore_import_bundle', { path: path.join(workspace, 'exports', 'files.yaml') }))
+      .toEqual({ success: false, error: `Bundle files must be inside ${dataDir}: ${path.join(workspace, 'exports', 'files.yaml')}` });
+  });
+
+  it('lets the CLI use any path', () => {
+    const target = path.join(tempDir(), 'anywhere.json');
+    expect(exportBundle({ project_id, path: target }, { anyPath: true })).toMatchObject({ success: true, path: target });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, afterEach, beforeAll } from 'vitest';
+import { openTempDatabase } from './helpers';
+import { runCli, splitCommand, wantsHelp } from '../src/cli';
+import { createProject, listTasks } from '../src/tools';
+
+beforeAll(async () => {
+  await openTempDatabase();
+});
+
+afterEach(() => vi.restoreAllMocks());
+
+describe('cli help', () => {
+  it.each([['help'], ['--help'], ['-h'], ['tasks', '--help']])('prints the usage for %j', async (...argv) => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    expect(await runCli(argv)).toBe(0);
+    expect(log.mock.calls[0][0]).toMatch(/^Usage:/);
+  });
+
+  it('only treats the help flags as a request for help', () => {
+    expect(wantsHelp(['--http', '-h'])).toBe(true);
+    expect(wantsHelp(['--http', '--port', '7337'])).toBe(false);
+  });
+
+  it('does not treat the value of an option as a help flag', () => {
+    expect(wantsHelp(['task', 'add', 'p', 'Docs', '--description', '-h'])).toBe(false);
+    expect(wantsHelp(['task', 'add', 'p', 'Docs', '--description', '-h', '-h'])).toBe(true);
+  });
+});
+
+describe('cli command', () => {
+  it.each([
+    [['projects', '--limit', '5'], 'projects', ['--limit', '5']],
+    [['--data-dir', '/tmp/x', 'projects'], 'projects', ['--data-dir', '/tmp/x']],
+    [['--workspace=client', '--json', 'tasks', 'p1'], 'tasks', ['--workspace=client', '--json', 'p1']],
+    [['--http', '--port', '7337'], undefined, ['--http', '--port', '7337']]
+  ])('finds the command in %j', (argv, command, args) => {
+    expect(splitCommand(argv)).toEqual({ command, args });
+  });
+
+  it('runs the command after global options', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    expect(await runCli(['--workspace', 'default', 'projects', '--json'])).toBe(0);
+    expect(JSON.parse(log.mock.calls[0][0])).toMatchObject({ success: true, projects: [] });
+  });
+
+  it('runs task add when -h is the value of --description', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const project_id = createProject({ name: 'CLI' }).project!.id;
+
+    expect(await runCli(['task', 'add', project_id, 'Write docs', '--description', '-h'])).toBe(0);
+    expect(listTasks({ project_id }).tasks!.map(task => [task.title, task.description])).toEqual([['Write docs', '-h']]);
+  });
+});
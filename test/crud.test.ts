@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { openTempDatabase } from './helpers';
+import { getDb, queryAll, queryOne } from '../src/database';
+import {
+  createProject, getProject, deleteProject, storeContext, queryContext, updateContext,
+  createTask, listTasks, getNextTasks, deleteTask, logDecision
+} from '../src/tools';
+
+const newProject = (name: string) => createProject({ name }).project!.id;
+const newTask = (project_id: string, title: string, extra: { depends_on?: string[]; parent_id?: string } = {}) =>
+  createTask({ project_id, title, ...extra }).task!.id;
+// Sorted: tasks created in the same millisecond are listed in ID order
+const titles = (project_id: string, include_archived = false) =>
+  listTasks({ project_id, include_archived }).tasks!.map(task => task.title).sort();
+const taskById = (project_id: string, id: string) =>
+  listTasks({ project_id, include_archived: true }).tasks!.find(task => task.id === id)!;
+
+beforeAll(async () => {
+  await openTempDatabase();
+});
+
+describe('deleteProject', () => {
+  it('deletes the project with its tasks and context, and unlinks its decisions', () => {
+    const project_id = newProject('Doomed');
+    newTask(project_id, 'One');
+    newTask(project_id, 'Two');
+    storeContext({ project_id, type: 'convention', name: 'Tabs', content: 'Indent with tabs.' });
+    const decision_id = logDecision({ project_id, decision_type: 'architecture', decision: 'Use SQLite' }).decision_id!;
+
+    expect(deleteProject(project_id)).toEqual({ success: true, deleted: { tasks: 2, context: 1 } });
+    expect(getProject(project_id).success).toBe(false);
+    expect(queryAll('SELECT id FROM tasks WHERE project_id = ?', [project_id])).toEqual([]);
+    expect(queryAll('SELECT id FROM context WHERE project_id = ?', [project_id])).toEqual([]);
+    expect(queryOne('SELECT project_id FROM decision_log WHERE id = ?', [decision_id])).toEqual({ project_id: null });
+  });
+
+  it('archives the project and keeps everything in it', () => {
+    const project_id = newProject('Shelved');
+    newTask(project_id, 'Kept');
+
+    expect(deleteProject(project_id, true)).toEqual({ success: true, archived: true });
+    expect(getProject(project_id).project?.status).toBe('archived');
+    expect(titles(project_id)).toEqual(['Kept']);
+  });
+
+  it('reports an unknown project', () => {
+    expect(deleteProject('nope')).toEqual({ success: false, error: 'Project not found' });
+  });
+});
+
+describe('deleteTask', () => {
+  it('deletes a task with its subtasks and unlinks the tasks that depended on it', () => {
+    const project_id = newProject('Tree');
+    const parent = newTask(project_id, 'Parent');
+    const child = newTask(project_id, 'Child', { parent_id: parent });
+    const grandchild = newTask(project_id, 'Grandchild', { parent_id: child });
+    const dependent = newTask(project_id, 'Dependent', { depends_on: [parent] });
+
+    const result = deleteTask(parent);
+    expect(result).toMatchObject({ success: true, archived: false, subtasks: [child, grandchild], unlinked_dependents: [dependent] });
+    expect(titles(project_id, true)).toEqual(['Dependent']);
+    expect(taskById(project_id, dependent).depends_on).toEqual([]);
+  });
+
+  it('hides an archived task from listTasks and getNextTasks but keeps its row', () => {
+    const project_id = newProject('Archive');
+    const archived = newTask(project_id, 'Archived');
+    newTask(project_id, 'Active');
+
+    expect(deleteTask(archived, true)).toMatchObject({ success: true, archived: true });
+    expect(titles(project_id)).toEqual(['Active']);
+    expect(getNextTasks(project_id, 10).tasks!.map(task => task.title)).toEqual(['Active']);
+
+    expect(titles(project_id, true)).toEqual(['Active', 'Archived']);
+    expect(taskById(project_id, archived).archived_at).toEqual(expect.any(String));
+  });
+
+  it('keeps the dependencies on an archived task, so its dependents stay blocked', () => {
+    const project_id = newProject('Archived dependency');
+    const archived = newTask(project_id, 'Schema change');
+    const dependent = newTask(project_id, 'Backfill', { depends_on: [archived] });
+
+    expect(deleteTask(archived, true)).toMatchObject({ success: true, archived: true, unlinked_dependents: [] });
+    expect(taskById(project_id, dependent).depends_on).toEqual([archived]);
+
+    const next = getNextTasks(project_id, 10);
+    expect(next.tasks).toEqual([]);
+    expect(next.blocked).toEqual([{
+      task_id: dependent,
+      title: 'Backfill',
+      blocked_by: [{ id: archived, title: 'Schema change', status: 'archived' }]
+    }]);
+  });
+
+  it('leaves the dependencies alone when the delete fails partway', () => {
+    const project_id = newProject('Failed delete');
+    const doomed = newTask(project_id, 'Doomed');
+    const dependent = newTask(project_id, 'Dependent', { depends_on: [doomed] });
+
+    // Fails after the dependents were unlinked
+    getDb().run(`CREATE TEMP TRIGGER fail_delete BEFORE DELETE ON tasks BEGIN SELECT RAISE(ABORT, 'disk full'); END`);
+    try {
+      expect(deleteTask(doomed)).toMatchObject({ success: false, error: expect.stringContaining('disk full') });
+    } finally {
+      getDb().run('DROP TRIGGER fail_delete');
+    }
+    expect(titles(project_id)).toEqual(['Dependent', 'Doomed']);
+    expect(taskById(project_id, dependent).depends_on).toEqual([doomed]);
+  });
+
+  it('pages through listTasks', () => {
+    const project_id = newProject('Pages');
+    for (const title of ['A', 'B', 'C']) newTask(project_id, title);
+
+    const first = listTasks({ project_id, limit: 2 });
+    const second = listTasks({ project_id, limit: 2, offset: 2 });
+    expect(first).toMatchObject({ total: 3, next_offset: 2 });
+    expect(second).toMatchObject({ total: 3, next_offset: null });
+    expect([...first.tasks!, ...second.tasks!].map(task => task.title).sort()).toEqual(['A', 'B', 'C']);
+  });
+});
+
+describe('updateContext', () => {
+  it('edits the entry in place, keeping its ID', () => {
+    const id = storeContext({ type: 'glossary', name: 'Tenant', content: 'A customer account.' }).context!.id;
+
+    const updated = updateContext({ context_id: id, content: 'A customer organisation with its own users.', priority: 'high' });
+    expect(updated.context).toMatchObject({ id, name: 'Tenant', content: 'A customer organisation with its own users.', priority: 'high' });
+
+    const found = queryContext({ search: 'tenant' }).results!;
+    expect(found.map(entry => entry.id)).toEqual([id]);
+  });
+
+  it('reports an unknown entry or an empty update', () => {
+    expect(updateContext({ context_id: 'nope', content: 'x' })).toEqual({ success: false, error: 'Context not found' });
+    expect(updateContext({ context_id: 'nope' })).toEqual({ success: false, error: 'No updates provided' });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import * as fs from 'fs';
+import initSqlJs, { SqlJsStatic } from 'sql.js';
+import { openTempDatabase } from './helpers';
+import {
+  flushDatabase, refreshFromDisk, runAndSave, runInTransaction, queryAll, takeSyncConflicts
+} from '../src/database';
+import { createProject } from '../src/tools';
+
+let SQL: SqlJsStatic;
+let db_path: string;
+let project_id: string;
+
+// What another server process does: load the file, write, and rename a new file into place.
+// Synchronous, so the debounced save of the unsaved writes cannot run in between.
+function writeFromAnotherProcess(sql: string, params: any[]): void {
+  const other = new SQL.Database(fs.readFileSync(db_path));
+  other.run(sql, params);
+  fs.writeFileSync(`${db_path}.other`, other.export());
+  other.close();
+  fs.renameSync(`${db_path}.other`, db_path);
+}
+
+const INSERT_TASK = "INSERT INTO tasks (id, project_id, title, status, priority, created_at, updated_at) VALUES (?, ?, ?, 'pending', 'medium', '', '')";
+const INSERT_CONTEXT = "INSERT INTO context (id, type, name, content, priority, created_at, updated_at) VALUES (?, 'convention', ?, ?, 'medium', '', '')";
+const ids = (table: string) => queryAll<{ id: string }>(`SELECT id FROM ${table} ORDER BY id`).map(row => row.id);
+
+beforeAll(async () => {
+  SQL = await initSqlJs();
+  db_path = await openTempDatabase();
+  project_id = createProject({ name: 'Journal' }).project!.id;
+  expect(flushDatabase()).toBe(true);
+});
+
+describe('journal replay after another process wrote', () => {
+  it('replays unsaved operations on top of the reloaded file', () => {
+    runInTransaction(() => {
+      runAndSave(INSERT_CONTEXT, ['ctx-1', 'Kept', 'Replayed with its task']);
+      runAndSave(INSERT_TASK, ['task-1', project_id, 'Kept']);
+    });
+    writeFromAnotherProcess(INSERT_TASK, ['task-other', project_id, 'From the other process']);
+
+    refreshFromDisk();
+    expect(takeSyncConflicts()).toEqual([]);
+    expect(ids('tasks')).toEqual(['task-1', 'task-other']);
+    expect(ids('context')).toEqual(['ctx-1']);
+    expect(flushDatabase()).toBe(true);
+  });
+
+  it('drops a conflicting operation as a whole instead of replaying half of it', () => {
+    runInTransaction(() => {
+      runAndSave(INSERT_CONTEXT, ['ctx-2', 'Dropped', 'Goes with its task']);
+      runAndSave(INSERT_TASK, ['task-2', project_id, 'Dropped']);
+    });
+    runAndSave(INSERT_TASK, ['task-3', project_id, 'Unrelated write']);
+    // The other process created task-2 first: the second statement no longer applies
+    writeFromAnotherProcess(INSERT_TASK, ['task-2', project_id, 'Theirs']);
+
+    refreshFromDisk();
+    const conflicts = takeSyncConflicts();
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ sql: INSERT_TASK, statements: 2, error: expect.stringContaining('UNIQUE') });
+
+    expect(ids('context')).toEqual(['ctx-1']);
+    expect(ids('tasks')).toEqual(['task-1', 'task-2', 'task-3', 'task-other']);
+    expect(queryAll<{ title: string }>("SELECT title FROM tasks WHERE id = 'task-2'")[0].title).toBe('Theirs');
+  });
+
+  it('never journals a rolled-back transaction', () => {
+    expect(() => runInTransaction(() => {
+      runAndSave(INSERT_CONTEXT, ['ctx-4', 'Rolled back', 'Never replayed']);
+      throw new Error('stop');
+    })).toThrow('stop');
+    writeFromAnotherProcess(INSERT_TASK, ['task-5', project_id, 'Forces a reload']);
+
+    refreshFromDisk();
+    expect(takeSyncConflicts()).toEqual([]);
+    expect(ids('context')).toEqual(['ctx-1']);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { openTempDatabase } from './helpers';
+import { setClock } from '../src/clock';
+import { buildCalibrationReport } from '../src/calibration';
+import {
+  createProject, logDecision, recordOutcome, getDecisionHistory, getDecisionCalibration, getDecisionChain
+} from '../src/tools';
+
+let restoreClock: () => void;
+let project_id: string;
+
+beforeAll(async () => {
+  // One second between writes, so decisions are ordered by creation
+  let time = Date.parse('2024-03-01T09:00:00.000Z');
+  restoreClock = setClock({ now: () => new Date(time += 1000) });
+  await openTempDatabase();
+  project_id = createProject({ name: 'Decisions' }).project!.id;
+});
+
+afterAll(() => restoreClock());
+
+function decide(decision: string, extra: { decision_type?: string; confidence?: number; supersedes?: string; amends?: string } = {}): string {
+  const result = logDecision({ project_id, decision_type: 'architecture', decision, ...extra });
+  expect(result.error).toBeUndefined();
+  return result.decision_id!;
+}
+
+describe('buildCalibrationReport', () => {
+  it('bins confidences and scores them against outcomes', () => {
+    const report = buildCalibrationReport('architecture', 7, [
+      { confidence: 0.2, was_correct: false },
+      { confidence: 0.4, was_correct: true },
+      { confidence: 0.8, was_correct: true },
+      { confidence: 0.9, was_correct: true },
+      { confidence: 1.0, was_correct: false },
+      { confidence: null, was_correct: true }
+    ], 2);
+
+    expect(report).toEqual({
+      decision_type: 'architecture',
+      decisions: 7,
+      with_outcome: 6,
+      correct: 4,
+      accuracy: 0.667,
+      scored: 5,
+      mean_confidence: 0.66,
+      calibration_gap: 0.06,
+      brier_score: 0.29,
+      expected_calibration_error: 0.22,
+      verdict: 'overconfident',
+      bins: [
+        { min_confidence: 0, max_confidence: 0.5, count: 2, mean_confidence: 0.3, accuracy: 0.5 },
+        // The last bin includes confidence 1.0
+        { min_confidence: 0.5, max_confidence: 1, count: 3, mean_confidence: 0.9, accuracy: 0.667 }
+      ]
+    });
+  });
+
+  it('gives no verdict below five scored decisions', () => {
+    const report = buildCalibrationReport('api', 1, [{ confidence: 0.9, was_correct: true }]);
+    expect(report).toMatchObject({ scored: 1, verdict: 'insufficient_data' });
+    expect(report.bins).toEqual([{ min_confidence: 0.8, max_confidence: 1, count: 1, mean_confidence: 0.9, accuracy: 1 }]);
+  });
+});
+
+describe('decision outcomes', () => {
+  it('filters the history by outcome and confidence, and reports calibration per type', () => {
+    const right = decide('Use Postgres', { decision_type: 'database', confidence: 0.9 });
+    const wrong = decide('Shard from day one', { decision_type: 'database', confidence: 0.7 });
+    decide('Adopt GraphQL', { decision_type: 'api', confidence: 0.6 });
+    recordOutcome({ decision_id: right, was_correct: true, note: 'Held up under load' });
+    recordOutcome({ decision_id: wrong, was_correct: false });
+
+    const titles = (filters: Parameters<typeof getDecisionHistory>[0]) =>
+      getDecisionHistory({ project_id, ...filters }).decisions!.map(d => d.decision);
+    expect(titles({ outcome: 'correct' })).toEqual(['Use Postgres']);
+    expect(titles({ outcome: 'incorrect' })).toEqual(['Shard from day one']);
+    expect(titles({ outcome: 'unknown' })).toEqual(['Adopt GraphQL']);
+    expect(titles({ min_confidence: 0.65, max_confidence: 0.8 })).toEqual(['Shard from day one']);
+
+    const calibration = getDecisionCalibration({ project_id });
+    expect(calibration.overall).toMatchObject({ decisions: 3, with_outcome: 2, correct: 1, accuracy: 0.5, mean_confidence: 0.8 });
+    expect(calibration.by_type!.map(r => [r.decision_type, r.decisions, r.with_outcome])).toEqual([['api', 1, 0], ['database', 2, 2]]);
+  });
+
+  it('reports an unknown decision', () => {
+    expect(recordOutcome({ decision_id: 'nope', was_correct: true })).toEqual({ success: false, error: 'Decision not found' });
+  });
+});
+
+describe('decision chains', () => {
+  it('walks a supersede followed by an amend, oldest first', () => {
+    const original = decide('Deploy with Heroku');
+    const replacement = decide('Deploy with Fly.io', { supersedes: original });
+    const amendment = decide('Deploy with Fly.io, two regions', { amends: replacement });
+
+    for (const start of [original, replacement, amendment]) {
+      const result = getDecisionChain(start);
+      expect(result.chain!.map(d => d.id)).toEqual([original, replacement, amendment]);
+      expect(result.current).toBe(replacement);
+    }
+
+    const [first, second, third] = getDecisionChain(amendment).chain!;
+    expect(first.superseded_by).toBe(replacement);
+    expect(second).toMatchObject({ relation: 'supersedes', related_decision_id: original, superseded_by: null });
+    expect(third).toMatchObject({ relation: 'amends', related_decision_id: replacement });
+  });
+
+  it('hides superseded decisions from the history unless asked', () => {
+    const history = (include_superseded?: boolean) =>
+      getDecisionHistory({ project_id, decision_type: 'architecture', include_superseded }).decisions!.map(d => d.decision);
+    expect(history()).toEqual(['Deploy with Fly.io, two regions', 'Deploy with Fly.io']);
+    expect(history(true)).toEqual(['Deploy with Fly.io, two regions', 'Deploy with Fly.io', 'Deploy with Heroku']);
+  });
+
+  it('refuses to supersede a decision twice', () => {
+    const original = decide('Cache in memory');
+    const replacement = decide('Cache in Redis', { supersedes: original });
+    expect(logDecision({ project_id, decision_type: 'architecture', decision: 'Cache in Memcached', supersedes: original })).toEqual({
+      success: false,
+      error: `Decision ${original} is already superseded by ${replacement}; supersede that one instead`
+    });
+  });
+});
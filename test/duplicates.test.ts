@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { openTempDatabase } from './helpers';
+import { lintContext } from '../src/duplicates';
+import { createProject, storeContext, queryContext } from '../src/tools';
+
+const INDENT = 'Indent TypeScript files with two spaces.';
+let project_id: string;
+let original: string;
+
+const contents = () => queryContext({ project_id }).results!.filter(entry => entry.scope === 'project').map(entry => entry.content).sort();
+
+beforeAll(async () => {
+  await openTempDatabase();
+  project_id = createProject({ name: 'Style' }).project!.id;
+  original = storeContext({ project_id, type: 'convention', name: 'Indentation', content: INDENT }).context!.id;
+});
+
+describe('storeContext duplicates', () => {
+  it('refuses a near-duplicate by default and lists what it looks like', () => {
+    const result = storeContext({ project_id, type: 'convention', name: 'Indent', content: 'Indent TypeScript files with 2 spaces.' });
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^Found 1 similar entry in the same layer, closest "Indentation"\. Pass on_duplicate/);
+    expect(result.duplicates).toEqual([expect.objectContaining({ id: original, match: 'similar', scope: 'project', content: INDENT })]);
+    expect(contents()).toEqual([INDENT]);
+  });
+
+  it('matches identical content whatever the name, and the same name whatever the content', () => {
+    const identical = storeContext({ project_id, type: 'convention', name: 'Whitespace', content: `  ${INDENT.toUpperCase()}` });
+    expect(identical.duplicates!.map(d => d.match)).toEqual(['identical']);
+    const sameName = storeContext({ project_id, type: 'convention', name: 'indentation', content: 'Tabs everywhere.' });
+    expect(sameName.duplicates!.map(d => d.match)).toEqual(['same_key']);
+  });
+
+  it('does not count an entry of another layer as a duplicate', () => {
+    expect(storeContext({ type: 'convention', name: 'Indentation', content: INDENT })).toMatchObject({ success: true, action: 'created' });
+  });
+
+  it('skips, keeping the existing entry', () => {
+    const result = storeContext({ project_id, type: 'convention', name: 'Indent', content: 'Indent TypeScript files with 2 spaces.', on_duplicate: 'skip' });
+    expect(result).toMatchObject({ success: true, action: 'skipped', context: { id: original, content: INDENT } });
+    expect(contents()).toEqual([INDENT]);
+  });
+
+  it('upserts into the closest entry, which keeps its ID', () => {
+    const result = storeContext({
+      project_id, type: 'convention', name: 'Indentation', content: 'Indent TypeScript files with four spaces.', on_duplicate: 'upsert'
+    });
+    expect(result).toMatchObject({ success: true, action: 'updated', context: { id: original, content: 'Indent TypeScript files with four spaces.' } });
+    expect(contents()).toEqual(['Indent TypeScript files with four spaces.']);
+  });
+
+  it('creates a new entry anyway, still listing the duplicates', () => {
+    const result = storeContext({
+      project_id, type: 'convention', name: 'Indentation (legacy)', content: 'Indent TypeScript files with four spaces.', on_duplicate: 'create'
+    });
+    expect(result).toMatchObject({ success: true, action: 'created', duplicates: [{ id: original, match: 'identical' }] });
+    expect(result.context!.id).not.toBe(original);
+    expect(contents()).toEqual(['Indent TypeScript files with four spaces.', 'Indent TypeScript files with four spaces.']);
+  });
+});
+
+describe('lintContext', () => {
+  const lint = (project_id: string) => lintContext({ project_id }).issues!.map(issue => [issue.kind, issue.reason, issue.entries.map(e => e.name).sort()]);
+
+  it('reports a near-duplicate pair', () => {
+    const id = createProject({ name: 'Near duplicates' }).project!.id;
+    storeContext({ project_id: id, type: 'convention', name: 'Commits', content: 'Write commit messages in the imperative mood.' });
+    storeContext({ project_id: id, type: 'convention', name: 'Messages', content: 'Write commit messages in imperative mood.', on_duplicate: 'create' });
+
+    expect(lint(id)).toEqual([['duplicate', 'Similar content', ['Commits', 'Messages']]]);
+  });
+
+  it('reports a pair where only one of them is negated as a conflict', () => {
+    const id = createProject({ name: 'Conflicts' }).project!.id;
+    storeContext({ project_id: id, type: 'convention', name: 'Mocks', content: 'Mock the database in unit tests.' });
+    storeContext({ project_id: id, type: 'convention', name: 'Test data', content: 'Never mock the database in unit tests.', on_duplicate: 'create' });
+
+    const result = lintContext({ project_id: id });
+    expect(result).toMatchObject({ success: true, entries_checked: 3, counts: { conflict: 1, duplicate: 0, redundant_override: 0 } });
+    expect(lint(id)).toEqual([['conflict', 'Similar wording, but only one of them is negated', ['Mocks', 'Test data']]]);
+  });
+
+  it('reports an unknown project', () => {
+    expect(lintContext({ project_id: 'nope' })).toEqual({ success: false, error: 'Project not found' });
+  });
+});
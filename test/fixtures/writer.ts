@@ -0,0 +1,22 @@
+/**
+ * One server process of the concurrency test: creates projects and bumps a
+ * shared counter, each through the tool pipeline, then saves and exits.
+ * Usage: writer.ts <db_path> <name> <count>
+ */
+import { initDatabase, flushDatabase } from '../../src/database';
+import { callTool } from '../../src/registry';
+
+const [db_path, name, count] = process.argv.slice(2);
+
+(async () => {
+  await initDatabase({ kind: 'named', name: 'shared', db_path });
+  for (let i = 0; i < Number(count); i++) {
+    const created = await callTool('auracore_create_project', { name: `${name}-${i}` });
+    const incremented = await callTool('auracore_increment', { key: 'counter' });
+    if (!created.success || !incremented.success) {
+      console.error(created.error || incremented.error);
+      process.exit(1);
+    }
+  }
+  process.exit(flushDatabase() ? 0 : 1);
+})();
@@ -0,0 +1,24 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { initDatabase } from '../src/database';
+
+const created: string[] = [];
+
+// Removed when the test file's process exits
+export function tempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auracore-test-'));
+  created.push(dir);
+  return dir;
+}
+
+process.on('exit', () => {
+  for (const dir of created) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Open a fresh database file in a temporary directory; each test file runs in its own process
+export async function openTempDatabase(): Promise<string> {
+  const db_path = path.join(tempDir(), 'auracore.db');
+  await initDatabase({ kind: 'named', name: 'test', db_path });
+  return db_path;
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { openTempDatabase } from './helpers';
+import { startHttpServer } from '../src/http';
+
+const TOKEN = 'test-token';
+let server: http.Server;
+let port: number;
+
+// Status of a GET /sse with the given headers; the event stream is closed once it opens
+function status(headers: http.OutgoingHttpHeaders): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, path: '/sse', headers: { Authorization: `Bearer ${TOKEN}`, ...headers } }, res => {
+      resolve(res.statusCode || 0);
+      res.destroy();
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+interface Session {
+  call(name: string, args: object): Promise<any>;
+  close(): void;
+}
+
+// An MCP client session over raw HTTP: responses arrive on the event stream, matched by request id
+function openSession(): Promise<Session> {
+  return new Promise((resolve, reject) => {
+    const headers = { Authorization: `Bearer ${TOKEN}`, Host: `127.0.0.1:${port}` };
+    const pending = new Map<number, (message: any) => void>();
+    let nextId = 1;
+    let buffer = '';
+
+    const post = (endpoint: string, message: object) => new Promise<void>((done, fail) => {
+      const req = http.request({ host: '127.0.0.1', port, path: endpoint, method: 'POST', headers: { ...headers, 'Content-Type': 'application/json' } }, res => {
+        res.resume();
+        res.on('end', () => done());
+      });
+      req.on('error', fail);
+      req.end(JSON.stringify(message));
+    });
+
+    const session = (endpoint: string, stream: http.IncomingMessage): Session => {
+      const request = (method: string, params: object) => new Promise<any>((done, fail) => {
+        const id = nextId++;
+        pending.set(id, message => (message.error ? fail(new Error(message.error.message)) : done(message.result)));
+        post(endpoint, { jsonrpc: '2.0', id, method, params }).catch(fail);
+      });
+      const ready = request('initialize', { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } })
+        .then(() => post(endpoint, { jsonrpc: '2.0', method: 'notifications/initialized' }));
+      return {
+        call: async (name, args) => {
+          await ready;
+          const result = await request('tools/call', { name, arguments: args });
+          return JSON.parse(result.content[0].text);
+        },
+        close: () => stream.destroy()
+      };
+    };
+
+    const req = http.request({ host: '127.0.0.1', port, path: '/sse', headers }, res => {
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => {
+        buffer += chunk;
+        for (let end = buffer.indexOf('\n\n'); end >= 0; end = buffer.indexOf('\n\n')) {
+          const block = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          const event = /^event: (.*)$/m.exec(block)?.[1];
+          const data = /^data: (.*)$/m.exec(block)?.[1] ?? '';
+          if (event === 'endpoint') {
+            resolve(session(data, res));
+          } else if (event === 'message') {
+            const message = JSON.parse(data);
+            pending.get(message.id)?.(message);
+            pending.delete(message.id);
+          }
+        }
+      });
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+beforeAll(async () => {
+  await openTempDatabase();
+  server = await startHttpServer({ port: 0, token: TOKEN, allowedOrigins: ['https://app.example.com/'] });
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+describe('HTTP transport', () => {
+  it('accepts local clients with the token', async () => {
+    expect(await status({ Host: `127.0.0.1:${port}` })).toBe(200);
+    expect(await status({ Host: `localhost:${port}`, Origin: `http://localhost:${port}` })).toBe(200);
+    expect(await status({ Host: `localhost:${port}`, Origin: 'https://app.example.com' })).toBe(200);
+  });
+
+  it('refuses a rebound Host or a foreign Origin, even with the token', async () => {
+    expect(await status({ Host: `evil.example:${port}` })).toBe(403);
+    expect(await status({ Host: `127.0.0.1:${port + 1}` })).toBe(403);
+    expect(await status({ Host: `127.0.0.1:${port}`, Origin: 'http://evil.example' })).toBe(403);
+  });
+
+  it('still requires the token', async () => {
+    expect(await status({ Host: `127.0.0.1:${port}`, Authorization: 'Bearer wrong' })).toBe(401);
+  });
+
+  it('refuses a workspace switch, so one client cannot move the others', async () => {
+    const [first, second] = await Promise.all([openSession(), openSession()]);
+    try {
+      expect(await first.call('auracore_switch_workspace', { name: 'other', create: true })).toEqual({
+        success: false,
+        error: 'Switching workspaces is disabled over HTTP: every client shares the server\'s database. ' +
+          'Start a server per workspace (--workspace or --repo) instead'
+      });
+      expect((await second.call('auracore_list_workspaces', {})).current).toMatchObject({ name: 'test' });
+
+      const { project } = await first.call('auracore_create_project', { name: 'Shared' });
+      expect((await second.call('auracore_get_project', { project_id: project.id })).project).toMatchObject({ name: 'Shared' });
+    } finally {
+      first.close();
+      second.close();
+    }
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { tempDir } from './helpers';
+import { acquireLock, releaseLock } from '../src/lock';
+import { initDatabase, queryAll } from '../src/database';
+import { recall } from '../src/tools';
+
+const WRITER = path.join(__dirname, 'fixtures', 'writer.ts');
+
+function runWriter(db_path: string, name: string, count: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ['-r', 'ts-node/register/transpile-only', WRITER, db_path, name, String(count)], {
+      stdio: ['ignore', 'ignore', 'inherit'],
+      env: { ...process.env, AURACORE_SAVE_DELAY_MS: '20' }
+    });
+    child.on('error', reject);
+    child.on('exit', code => resolve(code ?? 1));
+  });
+}
+
+describe('database lock', () => {
+  it('takes over a lock left by a dead process', () => {
+    const lockPath = path.join(tempDir(), 'auracore.db.lock');
+    // No process has this PID: pid_max is far below it
+    fs.writeFileSync(lockPath, JSON.stringify({ pid: 2 ** 30, hostname: os.hostname(), acquired_at: Date.now() }));
+
+    acquireLock(lockPath);
+    expect(JSON.parse(fs.readFileSync(lockPath, 'utf8')).pid).toBe(process.pid);
+    releaseLock(lockPath);
+    expect(fs.existsSync(lockPath)).toBe(false);
+    expect(fs.readdirSync(path.dirname(lockPath))).toEqual([]);
+  });
+
+  it('keeps the writes of two server processes writing at the same time', async () => {
+    const db_path = path.join(tempDir(), 'auracore.db');
+    const codes = await Promise.all([runWriter(db_path, 'a', 40), runWriter(db_path, 'b', 40)]);
+    expect(codes).toEqual([0, 0]);
+
+    await initDatabase({ kind: 'named', name: 'shared', db_path });
+    const names = queryAll<{ name: string }>('SELECT name FROM projects').map(row => row.name);
+    expect(names).toHaveLength(80);
+    expect(new Set(names).size).toBe(80);
+    expect(recall({ key: 'counter' }).value).toBe(80);
+  }, 120000);
+});
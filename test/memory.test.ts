@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { openTempDatabase } from './helpers';
+import { rememberMany, recall, recallMany, remember, compareAndSet, increment } from '../src/tools';
+import { MemoryValue } from '../src/types';
+
+beforeAll(async () => {
+  await openTempDatabase();
+});
+
+describe('rememberMany', () => {
+  it('stores every entry of the batch', () => {
+    const result = rememberMany({ entries: [{ key: 'a', value: 1 }, { key: 'b', value: 'two', ttl_minutes: 5 }] });
+    expect(result.success).toBe(true);
+    expect(result.entries?.map(entry => [entry.key, entry.version])).toEqual([['a', 1], ['b', 1]]);
+    expect(recallMany({ keys: ['a', 'b'] }).entries?.map(entry => entry.value)).toEqual([1, 'two']);
+  });
+
+  it('stores nothing when an entry fails partway through', () => {
+    // A BigInt cannot be serialized, so the second write throws after the first ran
+    const result = rememberMany({
+      entries: [{ key: 'a', value: 100 }, { key: 'bad', value: 1n as unknown as MemoryValue }, { key: 'c', value: 3 }]
+    });
+    expect(result.success).toBe(false);
+    expect(recall({ key: 'a' })).toMatchObject({ value: 1, version: 1 });
+    expect(recall({ key: 'c' }).success).toBe(false);
+  });
+});
+
+describe('compareAndSet', () => {
+  it('creates a missing key with expected_version 0', () => {
+    expect(compareAndSet({ key: 'lock', value: 'alice', expected_version: 0 }))
+      .toMatchObject({ success: true, entry: { key: 'lock', version: 1 } });
+    expect(recall({ key: 'lock' })).toMatchObject({ value: 'alice', version: 1 });
+  });
+
+  it('refuses expected_version 0 when the key already exists', () => {
+    const result = compareAndSet({ key: 'lock', value: 'bob', expected_version: 0 });
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Version mismatch on "lock": expected 0, found 1',
+      current: { key: 'lock', value: 'alice', version: 1 }
+    });
+    expect(recall({ key: 'lock' }).value).toBe('alice');
+  });
+
+  it('refuses a stale version and writes with the current one', () => {
+    remember({ key: 'lock', value: 'carol' });
+    expect(compareAndSet({ key: 'lock', value: 'dave', expected_version: 1 })).toMatchObject({
+      success: false,
+      error: 'Version mismatch on "lock": expected 1, found 2',
+      current: { value: 'carol', version: 2 }
+    });
+
+    expect(compareAndSet({ key: 'lock', value: 'dave', expected_version: 2 }))
+      .toMatchObject({ success: true, entry: { version: 3 } });
+    expect(recall({ key: 'lock' })).toMatchObject({ value: 'dave', version: 3 });
+  });
+});
+
+describe('increment', () => {
+  it('starts a missing key from initial and adds by', () => {
+    expect(increment({ key: 'hits', initial: 10 })).toEqual({ success: true, value: 11, version: 1 });
+    expect(increment({ key: 'hits', by: -3 })).toEqual({ success: true, value: 8, version: 2 });
+  });
+
+  it('refuses to increment a value that is not a number', () => {
+    remember({ key: 'name', value: 'auracore' });
+    expect(increment({ key: 'name' })).toEqual({ success: false, error: 'Value of "name" is not a number' });
+  });
+});
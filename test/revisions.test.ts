@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { openTempDatabase } from './helpers';
+import { setClock } from '../src/clock';
+import { storeContext, updateContext, deleteContext, queryContext, getContextHistory, diffContext } from '../src/tools';
+
+// The server clock stamps stores and updates; a deletion is stamped with the real time, later than these
+const T0 = Date.parse('2024-05-01T10:00:00.000Z');
+let restoreClock: () => void;
+let id: string;
+
+const at = (seconds: number) => new Date(T0 + seconds * 1000).toISOString();
+const asOf = (as_of: string, search?: string) =>
+  queryContext({ as_of, search }).results!.map(entry => [entry.id, entry.content, entry.revision]);
+
+beforeAll(async () => {
+  let time = T0;
+  restoreClock = setClock({ now: () => new Date(time) });
+  await openTempDatabase();
+
+  id = storeContext({ type: 'convention', name: 'Retries', content: 'Retry twice.\nWait one second between attempts.' }).context!.id;
+  time += 60_000;
+  updateContext({ context_id: id, content: 'Retry three times.\nWait one second between attempts.', priority: 'high' });
+  time += 60_000;
+  deleteContext(id);
+});
+
+afterAll(() => restoreClock());
+
+describe('context revisions', () => {
+  it('lists the store, the update and the deletion', () => {
+    const history = getContextHistory(id);
+    expect(history).toMatchObject({ success: true, context_id: id, deleted: true });
+    expect(history.revisions!.map(r => [r.revision, r.action, r.priority])).toEqual([
+      [1, 'created', 'medium'],
+      [2, 'updated', 'high'],
+      [3, 'deleted', 'high']
+    ]);
+    expect(history.revisions![0]).not.toHaveProperty('content');
+    expect(history.revisions!.slice(0, 2).map(r => r.changed_at)).toEqual([at(0), at(60)]);
+
+    expect(getContextHistory(id, true).revisions!.map(r => r.content)).toEqual([
+      'Retry twice.\nWait one second between attempts.',
+      'Retry three times.\nWait one second between attempts.',
+      'Retry three times.\nWait one second between attempts.'
+    ]);
+  });
+
+  it('shows entries as they stood at a past time, deleted ones included', () => {
+    expect(asOf(at(-1))).toEqual([]);
+    expect(asOf(at(30))).toEqual([[id, 'Retry twice.\nWait one second between attempts.', 1]]);
+    expect(asOf(at(90))).toEqual([[id, 'Retry three times.\nWait one second between attempts.', 2]]);
+    expect(asOf(new Date(Date.now() + 60_000).toISOString())).toEqual([]);
+    expect(queryContext({}).results).toEqual([]);
+  });
+
+  it('searches the text of the revision shown', () => {
+    expect(asOf(at(30), 'twice')).toEqual([[id, 'Retry twice.\nWait one second between attempts.', 1]]);
+    expect(asOf(at(30), 'three')).toEqual([]);
+    expect(asOf(at(90), 'THREE attempts')).toHaveLength(1);
+  });
+
+  it('diffs two revisions', () => {
+    const diff = diffContext({ context_id: id, from_revision: 1, to_revision: 2 });
+    expect(diff).toMatchObject({
+      success: true,
+      from: { revision: 1 },
+      to: { revision: 2 },
+      changes: [{ field: 'priority', from: 'medium', to: 'high' }],
+      stats: { added: 1, removed: 1 }
+    });
+    expect(diff.diff!.split('\n')).toEqual([
+      `--- Retries (revision 1, ${at(0)})`,
+      `+++ Retries (revision 2, ${at(60)})`,
+      '@@ -1,2 +1,2 @@',
+      '-Retry twice.',
+      '+Retry three times.',
+      ' Wait one second between attempts.'
+    ]);
+  });
+
+  it('rejects revisions that do not exist or are out of order', () => {
+    expect(diffContext({ context_id: id, from_revision: 1, to_revision: 9 }))
+      .toEqual({ success: false, error: 'Revision 9 not found (entry has revisions 1 to 3)' });
+    expect(diffContext({ context_id: id, from_revision: 2, to_revision: 1 }))
+      .toEqual({ success: false, error: 'from_revision must not be after to_revision' });
+    expect(getContextHistory('nope')).toEqual({ success: false, error: 'Context not found' });
+  });
+});
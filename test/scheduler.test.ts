@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildGraph, findCycle, validateDependencies, computeChainLengths, findCriticalPath
+} from '../src/scheduler';
+import { Task } from '../src/types';
+
+function task(id: string, depends_on: string[] = []): Task {
+  return {
+    id, project_id: 'p', title: id, status: 'pending', priority: 'medium', depends_on,
+    created_at: '2024-01-01T00:00:00.000Z', updated_at: '2024-01-01T00:00:00.000Z'
+  };
+}
+
+describe('findCycle', () => {
+  it.each<[string, Task[], string[] | null]>([
+    ['an acyclic graph', [task('a'), task('b', ['a']), task('c', ['a', 'b'])], null],
+    ['a 3-node cycle', [task('a', ['c']), task('b', ['a']), task('c', ['b'])], ['a', 'c', 'b', 'a']],
+    ['a self-dependency', [task('a', ['a'])], ['a', 'a']],
+    ['a dependency on an unknown task', [task('a', ['ghost'])], null]
+  ])('%s', (_name, tasks, cycle) => {
+    expect(findCycle(buildGraph(tasks))).toEqual(cycle);
+  });
+});
+
+describe('validateDependencies', () => {
+  const project = [task('a'), task('b', ['a']), task('c', ['b'])];
+
+  it.each<[string, string, string[], string | null]>([
+    ['valid dependencies', 'd', ['a', 'c'], null],
+    ['a self-dependency', 'a', ['a'], 'A task cannot depend on itself'],
+    ['unknown IDs', 'd', ['a', 'x', 'y'], 'Unknown task IDs in depends_on: x, y'],
+    ['a dependency closing a 3-node cycle', 'a', ['c'], 'Dependency cycle detected: a -> c -> b -> a']
+  ])('%s', (_name, task_id, depends_on, error) => {
+    expect(validateDependencies(task_id, depends_on, project)).toBe(error);
+  });
+});
+
+describe('critical path', () => {
+  // a -> b -> c is the longest chain; d only unblocks e
+  const open = [task('a'), task('b', ['a']), task('c', ['b']), task('d'), task('e', ['d'])];
+
+  it('measures the chain of open tasks waiting on each task', () => {
+    expect(Object.fromEntries(computeChainLengths(open))).toEqual({ a: 3, b: 2, c: 1, d: 2, e: 1 });
+  });
+
+  it('lists the longest chain in the order it must be done', () => {
+    expect(findCriticalPath(open, computeChainLengths(open))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('stops at the placeholder instead of recursing forever on a cycle', () => {
+    const lengths = computeChainLengths([task('a', ['b']), task('b', ['a'])]);
+    expect(Object.fromEntries(lengths)).toEqual({ a: 3, b: 2 });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { openTempDatabase } from './helpers';
+import { queryAll } from '../src/database';
+import { createProject, storeContext, queryContext, updateContext } from '../src/tools';
+
+let global_id: string;
+let group_id: string;
+let project_id: string;
+let project_entry: string;
+
+const store = (name: string, content: string, layer: { project_id?: string; group_name?: string; key?: string } = {}) =>
+  storeContext({ type: 'convention', name, content, ...layer }).context!.id;
+const seen = (input: Parameters<typeof queryContext>[0]) =>
+  queryContext(input).results!.map(entry => [entry.name, entry.scope, entry.shadowed_by]).sort();
+
+beforeAll(async () => {
+  await openTempDatabase();
+  project_id = createProject({ name: 'Checkout', group_name: 'payments' }).project!.id;
+
+  global_id = store('Code review', 'One approval is enough.', { key: 'review' });
+  group_id = store('Reviews', 'Two approvals for payment code.', { group_name: 'payments', key: 'review' });
+  project_entry = store('Review policy', 'A security review on every change.', { project_id, key: 'review' });
+  store('Formatting', 'Use Prettier.');
+  store('Releases', 'Release on Tuesdays.', { group_name: 'payments' });
+  store('Releases', 'Release from the train branch.', { group_name: 'ledger' });
+});
+
+describe('context layers', () => {
+  it('lets a project entry shadow the group and global entries with the same key', () => {
+    expect(seen({ project_id })).toEqual([
+      ['Formatting', 'global', undefined],
+      ['Releases', 'group', undefined],
+      ['Review policy', 'project', undefined]
+    ]);
+  });
+
+  it('returns the shadowed entries marked with the entry that wins when asked', () => {
+    expect(seen({ project_id, include_shadowed: true })).toEqual([
+      ['Code review', 'global', project_entry],
+      ['Formatting', 'global', undefined],
+      ['Releases', 'group', undefined],
+      ['Review policy', 'project', undefined],
+      ['Reviews', 'group', project_entry]
+    ]);
+  });
+
+  it('lets a group entry shadow the global one', () => {
+    expect(seen({ group_name: 'payments', include_shadowed: true })).toEqual([
+      ['Code review', 'global', group_id],
+      ['Formatting', 'global', undefined],
+      ['Releases', 'group', undefined],
+      ['Reviews', 'group', undefined]
+    ]);
+  });
+
+  it('skips the group layer for a project without a group', () => {
+    const solo = createProject({ name: 'Solo' }).project!.id;
+    // Its name matches the key of the global entry
+    const own = store('Review', 'Self-review is fine here.', { project_id: solo });
+
+    expect(seen({ project_id: solo, include_shadowed: true })).toEqual([
+      ['Code review', 'global', own],
+      ['Formatting', 'global', undefined],
+      ['Review', 'project', undefined]
+    ]);
+  });
+
+  it('overrides by name, ignoring case and spacing, when an entry has no key', () => {
+    const other = createProject({ name: 'Ledger', group_name: 'ledger' }).project!.id;
+    const own = store('  formatting ', 'Use Biome.', { project_id: other });
+
+    expect(seen({ project_id: other, include_shadowed: true })).toEqual([
+      ['  formatting ', 'project', undefined],
+      ['Code review', 'global', undefined],
+      ['Formatting', 'global', own],
+      ['Releases', 'group', undefined]
+    ]);
+  });
+
+  it('refuses an entry in a project and a group at once', () => {
+    expect(storeContext({ type: 'convention', name: 'Both', content: 'x', project_id, group_name: 'payments' }).success).toBe(false);
+  });
+
+  it('records the key and the layer in the revisions', () => {
+    updateContext({ context_id: group_id, group_name: 'ledger' });
+    expect(queryAll('SELECT revision, group_name, key FROM context_revisions WHERE context_id = ? ORDER BY revision', [group_id])).toEqual([
+      { revision: 1, group_name: 'payments', key: 'review' },
+      { revision: 2, group_name: 'ledger', key: 'review' }
+    ]);
+  });
+});
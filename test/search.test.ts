@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { openTempDatabase } from './helpers';
+import { getDb } from '../src/database';
+import { storeContext, queryContext } from '../src/tools';
+import { Context } from '../src/types';
+
+function store(name: string, content: string, priority: Context['priority'] = 'medium'): void {
+  expect(storeContext({ type: 'convention', name, content, priority }).success).toBe(true);
+}
+
+const names = (search: string) => queryContext({ search }).results?.map(result => result.name);
+
+beforeAll(async () => {
+  await openTempDatabase();
+  store('Session store', 'User sessions live in Redis and expire after one hour.');
+  store('Logging', 'Log the store of each session at debug level.');
+  store('Database migrations', 'Migrating the schema runs in a transaction against Postgres.');
+  store('Deploy window', 'Deploy on weekdays.', 'low');
+  store('Deploy freeze', 'Deploy nothing on Fridays.', 'critical');
+});
+
+describe('queryContext search', () => {
+  it('ranks a name match above a content match', () => {
+    expect(names('session')).toEqual(['Session store', 'Logging']);
+  });
+
+  it('weights equal text matches by priority', () => {
+    const results = queryContext({ search: 'deploy' }).results!;
+    expect(results.map(result => result.name)).toEqual(['Deploy freeze', 'Deploy window']);
+    expect(results[0].score).toBeGreaterThan(results[1].score!);
+  });
+
+  it('matches exact phrases, prefixes and alternatives', () => {
+    expect(names('"session store"')).toEqual(['Session store']);
+    expect(names('migrat*')).toEqual(['Database migrations']);
+    expect(names('redis OR postgres')?.sort()).toEqual(['Database migrations', 'Session store']);
+  });
+
+  it('highlights the matched terms in the snippet', () => {
+    expect(queryContext({ search: 'redis' }).results?.[0].snippet).toContain('**Redis**');
+  });
+
+  it.each(['"', '*', 'session "store', 'redis*"', '"*"', 'OR', 'session OR', 'NOT (AND', 'NEAR/2 "'])(
+    'returns a result, not an FTS syntax error, for %j',
+    (search) => {
+      const result = queryContext({ search });
+      expect(result.error).toBeUndefined();
+      expect(result.success).toBe(true);
+    }
+  );
+
+  it('keeps the terms around stray operator characters', () => {
+    expect(names('session "store')).toEqual(['Session store', 'Logging']);
+  });
+
+  it('reports a failing search as an error rather than throwing', () => {
+    getDb().run('ALTER TABLE context_fts RENAME TO context_fts_away');
+    try {
+      const result = queryContext({ search: 'session' });
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/no such table: context_fts/);
+    } finally {
+      getDb().run('ALTER TABLE context_fts_away RENAME TO context_fts');
+    }
+  });
+});
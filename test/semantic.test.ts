@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import { openTempDatabase } from './helpers';
+import { createProject, storeContext } from '../src/tools';
+import { createHashingEmbedder, createHttpEmbedder, setEmbeddingProvider, cosine, EmbeddingProvider } from '../src/embeddings';
+import { semanticSearch } from '../src/semantic';
+
+let project_id: string;
+let restoreProvider: (() => void) | null = null;
+
+beforeAll(async () => {
+  await openTempDatabase();
+  project_id = createProject({ name: 'Search' }).project!.id;
+});
+
+afterEach(() => {
+  restoreProvider?.();
+  restoreProvider = null;
+  vi.unstubAllGlobals();
+});
+
+const norm = (vector: number[]) => Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+
+describe('hashing embedder', () => {
+  it('gives the same normalized vector for the same text', async () => {
+    const [a, b] = await createHashingEmbedder().embed(['Authentication tokens expire', 'Authentication tokens expire']);
+    const [c] = await createHashingEmbedder().embed(['Authentication tokens expire']);
+    expect(a).toHaveLength(512);
+    expect(b).toEqual(a);
+    expect(c).toEqual(a);
+    expect(norm(a)).toBeCloseTo(1, 10);
+  });
+
+  it('brings word parts together and keeps unrelated text apart', async () => {
+    const [query, related, unrelated] = await createHashingEmbedder(256).embed(['auth', 'Authentication flow', 'Shopping basket']);
+    expect(query).toHaveLength(256);
+    expect(cosine(query, related)).toBeGreaterThan(0.1);
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+});
+
+describe('hybrid ranking', () => {
+  // Fixed vectors by entry name (the first line embedded); the query points along the first axis
+  const VECTORS: Record<string, number[]> = {
+    'Session store': [1, 0],      // Closest by meaning, no shared word
+    'Cache headers': [0, 1],      // Shares both words, unrelated by meaning
+    'API responses': [0.8, 0.6]   // Second on both counts
+  };
+  const fixedProvider: EmbeddingProvider = {
+    id: 'fixed',
+    embed: async texts => texts.map(text => VECTORS[text.split('\n')[0]] ?? [1, 0])
+  };
+
+  beforeAll(() => {
+    storeContext({ project_id, type: 'convention', name: 'Session store', content: 'Keep sessions in redis.' });
+    storeContext({ project_id, type: 'convention', name: 'Cache headers', content: 'Send cache headers with a long max-age on static files.' });
+    storeContext({ project_id, type: 'convention', name: 'API responses', content: 'Responses of the API may be kept in a cache for a minute, then fetched again from the database.' });
+  });
+
+  const search = async (mode: 'hybrid' | 'semantic' | 'keyword', semantic_weight?: number) => {
+    const result = await semanticSearch({ query: 'cache headers', project_id, sources: ['context'], mode, semantic_weight });
+    expect(result.success).toBe(true);
+    return result.results!.map(r => [r.title, r.semantic_rank, r.keyword_rank, r.score]);
+  };
+
+  it('ranks each side on its own in semantic and keyword modes', async () => {
+    restoreProvider = setEmbeddingProvider(fixedProvider);
+    expect(await search('semantic')).toEqual([
+      ['Session store', 1, null, round(1 / 61)],
+      ['API responses', 2, null, round(1 / 62)]
+    ]);
+    expect(await search('keyword')).toEqual([
+      ['Cache headers', null, 1, round(1 / 61)],
+      ['API responses', null, 2, round(1 / 62)]
+    ]);
+  });
+
+  it('puts what both rankings found first by reciprocal rank fusion', async () => {
+    restoreProvider = setEmbeddingProvider(fixedProvider);
+    expect(await search('hybrid')).toEqual([
+      ['API responses', 2, 2, round(0.5 / 62 + 0.5 / 62)],
+      ['Session store', 1, null, round(0.5 / 61)],   // Tied with Cache headers, closer by meaning
+      ['Cache headers', null, 1, round(0.5 / 61)]
+    ]);
+    // Leaning on keywords puts the keyword-only match ahead of the semantic-only one
+    expect(await search('hybrid', 0.3)).toEqual([
+      ['API responses', 2, 2, round(0.3 / 62 + 0.7 / 62)],
+      ['Cache headers', null, 1, round(0.7 / 61)],
+      ['Session store', 1, null, round(0.3 / 61)]
+    ]);
+  });
+});
+
+function round(score: number): number {
+  return Math.round(score * 1e6) / 1e6;
+}
+
+describe('HTTP embedder', () => {
+  const embedder = () => createHttpEmbedder({ url: 'http://127.0.0.1:11434/v1/embeddings', model: 'nomic', apiKey: 'secret' });
+
+  it('sends the texts to the model server and reads the vectors back in order', async () => {
+    const fetch = vi.fn(async () => Response.json({ data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] }));
+    vi.stubGlobal('fetch', fetch);
+
+    expect(await embedder().embed(['first', 'second'])).toEqual([[1, 0], [0, 1]]);
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://127.0.0.1:11434/v1/embeddings');
+    expect(JSON.parse(init.body as string)).toEqual({ model: 'nomic', input: ['first', 'second'] });
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer secret' });
+  });
+
+  it('reports a server error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('model not loaded', { status: 503 })));
+    await expect(embedder().embed(['text'])).rejects.toThrow('Embedding server returned 503: model not loaded');
+  });
+
+  it('reports a reply with the wrong number of vectors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ embeddings: [[1, 0]] })));
+    await expect(embedder().embed(['one', 'two'])).rejects.toThrow('Embedding server returned 1 vectors for 2 texts');
+  });
+
+  it('turns a failing provider into a search error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('fetch failed'); }));
+    restoreProvider = setEmbeddingProvider(embedder());
+    const result = await semanticSearch({ query: 'cache', project_id });
+    expect(result).toEqual({ success: false, error: 'TypeError: fetch failed' });
+  });
+
+  it('refuses semantic modes when no provider is configured', async () => {
+    restoreProvider = setEmbeddingProvider(null);
+    expect((await semanticSearch({ query: 'cache', project_id })).error).toContain('Semantic search is off');
+    expect((await semanticSearch({ query: 'cache', project_id, mode: 'keyword' })).success).toBe(true);
+  });
+});
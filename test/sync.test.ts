@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { openTempDatabase, tempDir } from './helpers';
+import { createProject, updateProject } from '../src/tools';
+import { syncWorkspace, stopWatching } from '../src/sync';
+import { queryAll } from '../src/database';
+
+let root: string;
+let project_id: string;
+
+function write(relPath: string, text: string): void {
+  const file = path.join(root, relPath);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, text);
+}
+
+const contextNames = () => queryAll<{ name: string }>('SELECT name FROM context WHERE project_id = ? ORDER BY name', [project_id]).map(row => row.name);
+
+beforeAll(async () => {
+  await openTempDatabase();
+  root = tempDir();
+  project_id = createProject({ name: 'Synced' }).project!.id;
+  updateProject(project_id, { workspace_path: root });
+  write('docs/conventions/naming.md', '# Naming\n\nUse camelCase.');
+});
+
+afterEach(() => stopWatching(project_id));
+
+describe('workspace sync', () => {
+  it('mirrors the markdown files of the workspace', () => {
+    const result = syncWorkspace({ project_id });
+    expect(result.report?.created).toEqual(['docs/conventions/naming.md']);
+    expect(contextNames()).toEqual(['Naming']);
+  });
+
+  it.each(['..', '../elsewhere', 'docs/../../elsewhere', '/etc'])('refuses a directory outside the workspace: %s', dir => {
+    const result = syncWorkspace({ project_id, dirs: ['docs', dir] });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('must be inside the workspace');
+    expect(result.error).toContain(dir);
+  });
+
+  it('refuses a symlink leading out of the workspace', () => {
+    const outside = tempDir();
+    fs.writeFileSync(path.join(outside, 'secret.md'), '# Secret');
+    fs.symlinkSync(outside, path.join(root, 'linked'));
+    expect(syncWorkspace({ project_id, dirs: ['linked'] }).success).toBe(false);
+    expect(contextNames()).not.toContain('Secret');
+  });
+
+  it('re-syncs when a file changes in a watched subdirectory', async () => {
+    expect(syncWorkspace({ project_id, dirs: ['docs'], watch: true }).report?.watching).toBe(true);
+    write('docs/conventions/api/errors.md', '# Errors\n\nReturn { code, message }.');
+
+    const deadline = Date.now() + 5000;
+    while (!contextNames().includes('Errors') && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    expect(contextNames()).toEqual(['Errors', 'Naming']);
+  });
+});
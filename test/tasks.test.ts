@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { openTempDatabase } from './helpers';
+import { createProject, createTask, updateTask, getNextTasks } from '../src/tools';
+
+beforeAll(async () => {
+  await openTempDatabase();
+});
+
+describe('getNextTasks', () => {
+  it('recommends subtasks before their parent, and the parent once they are done', () => {
+    const project_id = createProject({ name: 'Tree' }).project!.id;
+    const parent = createTask({ project_id, title: 'Checkout', priority: 'critical' }).task!.id;
+    const form = createTask({ project_id, title: 'Payment form', parent_id: parent, priority: 'low' }).task!.id;
+    const email = createTask({ project_id, title: 'Receipt email', parent_id: parent, priority: 'low' }).task!.id;
+
+    const next = getNextTasks(project_id, 10);
+    expect(next.tasks?.map(task => task.title).sort()).toEqual(['Payment form', 'Receipt email']);
+    expect(next.blocked).toEqual([{
+      task_id: parent,
+      title: 'Checkout',
+      blocked_by: [
+        { id: form, title: 'Payment form', status: 'pending', subtask: true },
+        { id: email, title: 'Receipt email', status: 'pending', subtask: true }
+      ]
+    }]);
+
+    updateTask({ task_id: form, status: 'completed' });
+    expect(getNextTasks(project_id, 10).tasks?.map(task => task.title)).toEqual(['Receipt email']);
+
+    updateTask({ task_id: email, status: 'completed' });
+    expect(getNextTasks(project_id, 10, 'critical_path').tasks?.map(task => task.title)).toEqual(['Checkout']);
+  });
+});
+
+describe('updateTask', () => {
+  it('clears completed_at when a completed task is reopened', () => {
+    const project_id = createProject({ name: 'Reopen' }).project!.id;
+    const task_id = createTask({ project_id, title: 'Release notes' }).task!.id;
+
+    expect(updateTask({ task_id, status: 'completed' }).task?.completed_at).toEqual(expect.any(String));
+    expect(updateTask({ task_id, status: 'in_progress' }).task?.completed_at).toBeNull();
+    expect(updateTask({ task_id, status: 'completed' }).task?.completed_at).toEqual(expect.any(String));
+    expect(updateTask({ task_id, status: 'blocked' }).task?.completed_at).toBeNull();
+    // Other updates leave it alone
+    updateTask({ task_id, status: 'completed' });
+    expect(updateTask({ task_id, priority: 'high' }).task?.completed_at).toEqual(expect.any(String));
+  });
+});
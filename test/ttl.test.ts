@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { openTempDatabase } from './helpers';
+import { setClock } from '../src/clock';
+import { remember, recall } from '../src/tools';
+import { sweepExpiredMemory, startTtlSweeper, stopTtlSweeper } from '../src/ttl';
+import { queryAll, runAndSave } from '../src/database';
+
+let current: Date;
+let restoreClock: () => void;
+const advance = (ms: number) => { current = new Date(current.getTime() + ms); };
+const storedKeys = () => queryAll<{ key: string }>('SELECT key FROM session_memory ORDER BY key').map(row => row.key);
+
+beforeAll(async () => {
+  await openTempDatabase();
+});
+
+beforeEach(() => {
+  current = new Date('2026-01-01T00:00:00.000Z');
+  restoreClock = setClock({ now: () => current });
+});
+
+afterEach(() => {
+  restoreClock();
+  stopTtlSweeper();
+  vi.useRealTimers();
+});
+
+describe('session memory TTL', () => {
+  it('expires exactly at the TTL boundary', () => {
+    expect(remember({ key: 'boundary', value: 'v', ttl_minutes: 1 }).expires_at).toBe('2026-01-01T00:01:00.000Z');
+
+    advance(59999);
+    expect(recall({ key: 'boundary' })).toMatchObject({ success: true, value: 'v', ttl_remaining_seconds: 1 });
+
+    advance(1);
+    expect(recall({ key: 'boundary' })).toEqual({ success: false, error: 'Key not found or expired' });
+  });
+
+  it('extends a sliding TTL on each read', () => {
+    remember({ key: 'sliding', value: 1, ttl_minutes: 1, sliding: true });
+    remember({ key: 'fixed', value: 2, ttl_minutes: 1 });
+
+    advance(45000);
+    expect(recall({ key: 'sliding' })).toMatchObject({ success: true, expires_at: '2026-01-01T00:01:45.000Z', ttl_remaining_seconds: 60 });
+    expect(recall({ key: 'fixed' })).toMatchObject({ success: true, expires_at: '2026-01-01T00:01:00.000Z' });
+
+    // 90 s after they were written: only the entry read in between is still alive
+    advance(45000);
+    expect(recall({ key: 'sliding' })).toMatchObject({ success: true, value: 1 });
+    expect(recall({ key: 'fixed' }).success).toBe(false);
+
+    // Not read for a full TTL, it expires like any other
+    advance(60000);
+    expect(recall({ key: 'sliding' }).success).toBe(false);
+  });
+
+  it('sweeps expired entries and keeps live ones', () => {
+    runAndSave('DELETE FROM session_memory');
+    remember({ key: 'short', value: 'a', ttl_minutes: 1 });
+    remember({ key: 'long', value: 'b', ttl_minutes: 10 });
+    remember({ key: 'forever', value: 'c' });
+
+    advance(59999);
+    expect(sweepExpiredMemory()).toBe(0);
+    expect(storedKeys()).toEqual(['forever', 'long', 'short']);
+
+    advance(1);
+    expect(sweepExpiredMemory()).toBe(1);
+    expect(storedKeys()).toEqual(['forever', 'long']);
+  });
+
+  it('runs the sweep on its interval', () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    runAndSave('DELETE FROM session_memory');
+    remember({ key: 'short', value: 'a', ttl_minutes: 1 });
+    remember({ key: 'long', value: 'b', ttl_minutes: 10 });
+
+    startTtlSweeper(1000);
+    advance(120000);
+    expect(storedKeys()).toEqual(['long', 'short']);
+
+    vi.advanceTimersByTime(1000);
+    expect(storedKeys()).toEqual(['long']);
+  });
+});
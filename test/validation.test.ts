@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { openTempDatabase } from './helpers';
+import { callTool } from '../src/registry';
+
+let project_id: string;
+
+beforeAll(async () => {
+  await openTempDatabase();
+  project_id = ((await callTool('auracore_create_project', { name: 'Validation' })).project as { id: string }).id;
+});
+
+describe('callTool argument validation', () => {
+  it('returns one {field, message} per invalid argument without running the tool', async () => {
+    const result = await callTool('auracore_create_task', { project_id, title: '   ', priority: 'urgent' });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Invalid arguments for auracore_create_task');
+    expect(result.field_errors).toEqual([
+      { field: 'title', message: 'Must not be empty' },
+      { field: 'priority', message: expect.stringContaining("Expected 'critical' | 'high' | 'medium' | 'low'") }
+    ]);
+  });
+
+  it('reports missing required arguments', async () => {
+    const result = await callTool('auracore_create_task', undefined);
+    expect(result.field_errors).toEqual([
+      { field: 'project_id', message: 'Required' },
+      { field: 'title', message: 'Required' }
+    ]);
+  });
+
+  it('coerces numbers sent as strings', async () => {
+    expect((await callTool('auracore_get_next_tasks', { project_id, limit: '5' })).success).toBe(true);
+    expect((await callTool('auracore_get_next_tasks', { project_id, limit: 'five' })).field_errors)
+      .toEqual([{ field: 'limit', message: 'Expected number, received nan' }]);
+    expect((await callTool('auracore_get_next_tasks', { project_id, limit: '0' })).field_errors)
+      .toEqual([{ field: 'limit', message: 'Number must be greater than 0' }]);
+  });
+
+  it('coerces booleans sent as strings', async () => {
+    expect((await callTool('auracore_list_tasks', { project_id, include_archived: 'true' })).success).toBe(true);
+    expect((await callTool('auracore_list_tasks', { project_id, include_archived: 'yes' })).field_errors)
+      .toEqual([{ field: 'include_archived', message: 'Expected boolean, received string' }]);
+  });
+
+  it('refuses sliding without ttl_minutes', async () => {
+    expect((await callTool('auracore_remember', { key: 'token', value: 'abc', sliding: true })).field_errors)
+      .toEqual([{ field: 'sliding', message: 'sliding requires ttl_minutes' }]);
+    expect((await callTool('auracore_remember', { key: 'token', value: 'abc', sliding: 'true', ttl_minutes: '5' })).success)
+      .toBe(true);
+  });
+});